@@ -5,29 +5,105 @@
 import { Player } from "./entities/Player";
 import { Obstacle } from "./entities/Obstacle";
 import { Collectible } from "./entities/Collectible";
+import {
+  getClearanceHeight,
+  getObstacleDefinition,
+} from "./entities/obstacleTypes";
+import {
+  POWER_UP_DEFINITIONS,
+  POWER_UP_TYPES,
+  isPowerUp,
+} from "./entities/powerUpTypes";
 import { PhysicsSystem } from "./systems/PhysicsSystem";
 import { RenderSystem } from "./systems/RenderSystem";
+import { NullRenderSystem } from "./systems/NullRenderSystem";
+import { StageSystem } from "./systems/StageSystem";
+import { DifficultySystem } from "./systems/DifficultySystem";
+import { SpawnPlanner } from "./systems/SpawnPlanner";
+import { PowerUpSystem } from "./systems/PowerUpSystem";
+import { ComboSystem } from "./systems/ComboSystem";
+import { GhostRunner } from "./systems/GhostRunner";
+import type { ComboState } from "./systems/ComboSystem";
+import type { StageUpdate } from "./systems/StageSystem";
+import type { ObstacleSize } from "./systems/SpawnPlanner";
 import { AudioSystem } from "./systems/AudioSystem";
 import { InputHandler } from "./utils/InputHandler";
 import { EntityPool } from "./utils/ObjectPool";
+import { SeededRandom } from "./utils/SeededRandom";
+import { ReplayRecorder } from "./utils/ReplayRecorder";
+import {
+  LocalLeaderboard,
+  normalizeInitials,
+} from "./leaderboard/LocalLeaderboard";
+import { LocalLeaderboardProvider } from "./leaderboard/LocalLeaderboardProvider";
+import type { LeaderboardProvider } from "./leaderboard/LeaderboardProvider";
+import { AchievementSystem } from "./achievements/AchievementSystem";
+import { StatsTracker } from "./stats/StatsTracker";
+import {
+  DailyChallenge,
+  formatDailyResult,
+  getDailyKey,
+  getDailySeed,
+} from "./daily/DailyChallenge";
+import { createScoreCard, formatShareText } from "./share/ScoreCard";
+import {
+  applySettingsToConfig,
+  getDefaultSettings,
+  getPresetTuning,
+  sanitizeSettings,
+  saveSettings,
+  settingsFromConfig,
+} from "./settings/Settings";
+import type { ScoreCardData } from "./share/ScoreCard";
 import type {
+  GameConfig,
   GameEngineConfig,
   GameState,
   GameEvent,
+  GameMode,
   Vector2D,
   ParticleConfig,
-  ObstacleConfig,
   CollectibleConfig,
+  ObstacleType,
+  CollectibleType,
+  ActivePowerUp,
+  PowerUpType,
+  InputState,
+  GameSettings,
+  GameTuning,
+  PlayerConfig,
+  ReplayData,
+  ScoreBreakdown,
+  LeaderboardEntry,
+  LeaderboardSubmitResult,
+  AchievementProgress,
+  LifetimeStats,
 } from "./types/GameTypes";
 
 export class GameEngine {
-  private ctx: CanvasRenderingContext2D;
   private config: GameEngineConfig;
   private state: GameState;
   private inputHandler: InputHandler;
   private physicsSystem: PhysicsSystem;
   private renderSystem: RenderSystem;
   private audioSystem: AudioSystem;
+  private stageSystem: StageSystem;
+  private difficultySystem: DifficultySystem;
+  private spawnPlanner: SpawnPlanner;
+  private powerUps: PowerUpSystem = new PowerUpSystem();
+  private combo: ComboSystem = new ComboSystem();
+
+  // Right edge of the newest obstacle, kept scrolling after it leaves the pool
+  private lastObstacleEdge: number = 0;
+  private lastObstacleSize: ObstacleSize = { width: 0, height: 0 };
+  // Random obstacle waiting for a fair gap
+  private nextObstacleType: ObstacleType | null = null;
+
+  // Speed pinned through setGameSpeed() - wins over the difficulty curve
+  private speedOverride: number | null = null;
+
+  // Headless mode - no canvas, no rAF loop, advanced manually via step()
+  private readonly headless: boolean;
 
   // Unified ground Y coordinate - aligns visual ground with physics
   private readonly GROUND_Y: number;
@@ -38,6 +114,21 @@ export class GameEngine {
   private collectibles: EntityPool<Collectible>;
   private particles: ParticleConfig[] = [];
 
+  // Deterministic randomness - every random decision goes through this
+  private rng: SeededRandom;
+  private pinnedSeed: number | null;
+
+  // Replay recording and input source override (used for playback)
+  private recorder: ReplayRecorder = new ReplayRecorder();
+  private lastReplay: ReplayData | null = null;
+  private inputSource: (() => InputState) | null = null;
+  // Tuning the replay being played was recorded on, null for live input
+  private replayTuning: GameTuning | null = null;
+  // Played-back runs never reach the leaderboard, stats or the ghost
+  private isReplayRun: boolean = false;
+  // Best run replayed as a ghost on runs with the same seed
+  private ghost: GhostRunner;
+
   // Game loop
   private animationId: number | null = null;
   private lastTime: number = 0;
@@ -48,14 +139,50 @@ export class GameEngine {
   private eventListeners: Map<string, ((event: GameEvent) => void)[]> =
     new Map();
 
-  // High score
-  private highScoreKey: string = "miniGameHighScore";
+  // High score - the top entry of the local leaderboard
+  private leaderboard: LocalLeaderboard = new LocalLeaderboard();
+  // Leaderboard id of the current run, created when it is first recorded
+  private runId: string | null = null;
+  private lastRun: LeaderboardEntry | null = null;
+  // Where submitted runs go - the local board unless a backend is plugged in
+  private localProvider: LocalLeaderboardProvider =
+    new LocalLeaderboardProvider(this.leaderboard);
+  private leaderboardProvider: LeaderboardProvider = this.localProvider;
+  // Unlocks driven by this engine's own events
+  private achievements: AchievementSystem;
+  private stats: StatsTracker;
+  // Mode for upcoming runs and the per-day bests of daily runs
+  private mode: GameMode = "endless";
+  // One-off mode, seed and tuning for the next run, so a daily run or ghost
+  // race doesn't stick
+  private nextRun: {
+    mode: GameMode;
+    seed: number | null;
+    tuning: GameTuning | null;
+  } | null = null;
+  private daily: DailyChallenge;
+  // Obstacle that ended the current run - null while alive or when stopped
+  private deathCause: ObstacleType | null = null;
+  // Config as passed in, before settings - presets are re-applied to it
+  private baseConfig: GameEngineConfig;
+  private settings: GameSettings;
   private onScoreChangeCallback?: (score: number) => void;
 
   constructor(config: GameEngineConfig) {
-    this.ctx = config.canvas.getContext("2d")!;
+    // Player settings are layered over the config once, at load
+    this.baseConfig = config;
+    config = config.settings
+      ? applySettingsToConfig(config, config.settings)
+      : { ...config };
     this.config = config;
+    this.settings = config.settings ?? settingsFromConfig(config);
+    this.headless = config.headless ?? !config.canvas;
     this.onScoreChangeCallback = config.onScoreChange;
+    this.pinnedSeed =
+      config.seed !== undefined
+        ? SeededRandom.normalizeSeed(config.seed)
+        : null;
+    this.rng = new SeededRandom(this.pinnedSeed ?? undefined);
 
     // Initialize unified ground Y - 20px from bottom for visual ground alignment
     this.GROUND_Y = config.height - 20;
@@ -67,18 +194,45 @@ export class GameEngine {
       score: 0,
       gameSpeed: config.gameSpeed,
       frameCount: 0,
+      seed: this.rng.getSeed(),
+      mode: "endless",
+      daily: null,
+      stage: null,
+      elapsedTime: 0,
+      distance: 0,
+      collected: 0,
+      scoreBreakdown: { distance: 0, collectibles: 0, bonuses: 0 },
+      difficulty: {
+        level: 0,
+        gameSpeed: config.gameSpeed,
+        spawnRate: config.spawnRate,
+        obstacleWeights: {},
+        minObstacleGap: 0,
+      },
     };
 
     // Initialize systems
-    this.inputHandler = new InputHandler();
+    this.inputHandler = new InputHandler({ persist: !this.headless });
     this.physicsSystem = new PhysicsSystem(config.gravity);
-    this.renderSystem = new RenderSystem(
-      this.ctx,
-      config.width,
-      config.height,
-      config.render,
-    );
+    this.spawnPlanner = new SpawnPlanner(this.physicsSystem, {
+      jumpPower: config.jumpPower,
+      playerWidth: 20,
+    });
+    this.renderSystem =
+      this.headless || !config.canvas
+        ? new NullRenderSystem(config.width, config.height, config.render)
+        : new RenderSystem(
+            config.canvas.getContext("2d")!,
+            config.width,
+            config.height,
+            config.render,
+          );
     this.audioSystem = new AudioSystem(config.audio);
+    this.stageSystem = new StageSystem(config.stages);
+    // Describe the tuning the first run will get, as later runs do
+    this.applyRunTuning(null);
+    this.difficultySystem = new DifficultySystem(config, config.difficulty);
+    this.state.difficulty = this.difficultySystem.evaluate(0, 0);
 
     // Initialize object pools
     this.obstacles = new EntityPool<Obstacle>(
@@ -104,6 +258,28 @@ export class GameEngine {
       25,
     );
 
+    // Achievements follow the event stream; simulations never save unlocks
+    this.achievements = new AchievementSystem({
+      persist: !this.headless,
+      onUnlock: (achievement) =>
+        this.emitEvent({
+          type: "achievement",
+          data: achievement,
+          timestamp: Date.now(),
+        }),
+    });
+    this.achievements.attach(this);
+
+    // Daily bests are kept apart from the leaderboard
+    this.daily = new DailyChallenge({ persist: !this.headless });
+
+    // Simulations race ghosts but never save a new best run
+    this.ghost = new GhostRunner({ persist: !this.headless });
+
+    // Lifetime stats follow the same stream
+    this.stats = new StatsTracker({ persist: !this.headless });
+    this.stats.attach(this);
+
     // Setup input callbacks
     this.setupInputCallbacks();
   }
@@ -112,24 +288,22 @@ export class GameEngine {
    * Initialize the game engine
    */
   public initialize(): void {
-    if (typeof window === "undefined") {
-      console.warn("GameEngine: Cannot initialize in SSR environment");
-      return;
-    }
+    // Headless runs have no DOM input or audio to hook up
+    if (!this.headless) {
+      if (typeof window === "undefined") {
+        console.warn("GameEngine: Cannot initialize in SSR environment");
+        return;
+      }
 
-    // Initialize input handler
-    this.inputHandler.initialize();
+      // Initialize input handler
+      this.inputHandler.initialize();
 
-    // Initialize audio system (will be fully activated after user gesture)
-    this.audioSystem.initialize();
+      // Initialize audio system (will be fully activated after user gesture)
+      this.audioSystem.initialize();
+    }
 
     // Create player - position so feet align with ground line
-    this.player = new Player({
-      position: { x: 50, y: this.GROUND_Y - 20 }, // 20px = player height
-      size: { width: 20, height: 20 },
-      jumpPower: this.config.jumpPower,
-      groundY: this.GROUND_Y - 20, // Player's ground reference is their feet position
-    });
+    this.player = new Player(this.createPlayerConfig());
 
     console.log("GameEngine: Initialized successfully");
   }
@@ -146,17 +320,49 @@ export class GameEngine {
     this.state.gameSpeed = this.config.gameSpeed;
     this.state.frameCount = 0;
 
+    const nextRun = this.nextRun;
+    this.nextRun = null;
+    this.state.mode = nextRun ? nextRun.mode : this.mode;
+    this.state.daily = this.state.mode === "daily" ? getDailyKey() : null;
+
+    // Pick up difficulty preset changes made since the last run
+    this.isReplayRun = this.replayTuning !== null;
+    this.applyRunTuning(this.replayTuning ?? (nextRun ? nextRun.tuning : null));
+    this.difficultySystem = new DifficultySystem(
+      this.config,
+      this.config.difficulty,
+    );
+    this.resetProgress();
+
+    // Seed the run before anything random happens - daily runs take the
+    // seed of the UTC day they start on
+    this.seedRun(nextRun ? nextRun.seed : null);
+    if (!this.isReplayRun) {
+      this.recorder.start(this.state.seed, this.getGameConfig());
+    }
+    this.ghost.start(
+      this.state.seed,
+      this.getGameConfig(),
+      this.createPlayerConfig(),
+    );
+
     // Reset entities
     this.resetGame();
 
-    // Start game loop
-    this.lastTime = performance.now();
-    this.gameLoop(this.lastTime);
+    // Start game loop - headless runs are advanced with step() instead
+    if (!this.headless) {
+      this.lastTime = performance.now();
+      this.gameLoop(this.lastTime);
 
-    // Resume audio context on first user interaction
-    this.audioSystem.resume();
+      // Resume audio context on first user interaction
+      this.audioSystem.resume();
+    }
 
-    this.emitEvent({ type: "gamestart", timestamp: Date.now() });
+    this.emitEvent({
+      type: "gamestart",
+      data: { replay: this.isReplayRun },
+      timestamp: Date.now(),
+    });
   }
 
   /**
@@ -175,6 +381,7 @@ export class GameEngine {
     this.state.score = 0;
     this.state.gameSpeed = this.config.gameSpeed;
     this.state.frameCount = 0;
+    this.resetProgress();
     this.resetGame();
     this.emitEvent({ type: "reset", timestamp: Date.now() });
   }
@@ -207,10 +414,40 @@ export class GameEngine {
       this.animationId = null;
     }
 
-    // Update high score when game stops
-    this.updateHighScore();
+    if (this.recorder.isRecording()) {
+      this.lastReplay = this.recorder.stop(this.state.score);
+      this.ghost.record(this.lastReplay);
+    }
+
+    // Record the run on the leaderboard when game stops
+    const rank = this.recordRun();
+    const { daily } = this.state;
+    const newDailyBest =
+      daily !== null &&
+      !this.isReplayRun &&
+      this.daily.recordScore(daily, this.state.score);
 
-    this.emitEvent({ type: "gameover", timestamp: Date.now() });
+    this.emitEvent({
+      type: "gameover",
+      data: {
+        score: this.state.score,
+        breakdown: { ...this.state.scoreBreakdown },
+        duration: Math.round(this.state.elapsedTime),
+        distance: this.state.distance,
+        cause: this.deathCause,
+        seed: this.state.seed,
+        mode: this.state.mode,
+        daily,
+        dailyBest: daily !== null ? this.daily.getBest(daily) : null,
+        newDailyBest,
+        shareText: this.getShareText(),
+        rank,
+        entryId: rank >= 0 ? this.runId : null,
+        runId: this.lastRun ? this.lastRun.id : null,
+        replay: this.isReplayRun,
+      },
+      timestamp: Date.now(),
+    });
   }
 
   /**
@@ -223,6 +460,8 @@ export class GameEngine {
     this.obstacles.clear();
     this.collectibles.clear();
     this.particles = [];
+    this.achievements.detach();
+    this.stats.detach();
     this.eventListeners.clear();
   }
 
@@ -239,6 +478,8 @@ export class GameEngine {
     this.accumulator += deltaTime;
 
     while (this.accumulator >= this.fixedTimeStep) {
+      // Gamepads are read while paused too, so Start can resume
+      this.inputHandler.pollGamepads();
       if (!this.state.isPaused) {
         this.update(this.fixedTimeStep);
       }
@@ -252,6 +493,25 @@ export class GameEngine {
     this.animationId = requestAnimationFrame((time) => this.gameLoop(time));
   }
 
+  /**
+   * Advance the game by a number of fixed steps without the rAF loop.
+   * Returns how many steps actually ran (stops early on game over).
+   */
+  public step(frames: number = 1): number {
+    let stepped = 0;
+
+    while (stepped < frames && this.state.isRunning) {
+      // Gamepads are read while paused too, so Start can resume
+      this.inputHandler.pollGamepads();
+      if (!this.state.isPaused) {
+        this.update(this.fixedTimeStep);
+      }
+      stepped++;
+    }
+
+    return stepped;
+  }
+
   /**
    * Update game logic
    */
@@ -263,16 +523,29 @@ export class GameEngine {
     // Update player
     this.handlePlayerInput();
     this.player.update(deltaTime, this.state.gameSpeed);
+    this.ghost.update(deltaTime, this.state.gameSpeed);
 
-    // Spawn entities
+    // Advance handcrafted stages and the difficulty curve, then fill in
+    // with random spawns
+    this.applyStageUpdate(this.stageSystem.update(deltaTime));
+    this.updateDifficulty(deltaTime);
     this.spawnEntities();
 
     // Update obstacles
     this.obstacles.updateAll(deltaTime, this.state.gameSpeed);
+    this.lastObstacleEdge -= this.state.gameSpeed;
 
     // Update collectibles
     this.collectibles.updateAll(deltaTime, this.state.gameSpeed);
 
+    // Run down power-up timers and apply ongoing effects
+    this.updatePowerUps(deltaTime);
+
+    // Landing after the combo window has run out ends the chain
+    if (this.combo.update(deltaTime, this.player.isOnGround())) {
+      this.emitCombo("ended", 0);
+    }
+
     // Update particles
     this.updateParticles(deltaTime);
 
@@ -280,11 +553,8 @@ export class GameEngine {
     this.checkCollisions();
 
     // Clean up off-screen entities
-    this.obstacles.cleanupOffScreen(this.config.width, this.config.height);
-    this.collectibles.cleanupOffScreen(this.config.width, this.config.height);
-
-    // Increase difficulty
-    this.increaseDifficulty();
+    this.obstacles.cleanupOffScreen(this.config.height);
+    this.collectibles.cleanupOffScreen(this.config.height);
   }
 
   /**
@@ -299,7 +569,12 @@ export class GameEngine {
     // Draw ground
     this.renderSystem.drawGround(this.GROUND_Y);
 
-    // Render entities
+    // Render entities - the ghost goes behind the live player
+    const ghost = this.ghost.getGhost();
+    if (ghost) {
+      this.renderSystem.renderGhost(ghost);
+    }
+
     if (this.player) {
       this.renderSystem.renderEntity(this.player);
     }
@@ -311,8 +586,12 @@ export class GameEngine {
     this.renderSystem.drawParticles(this.particles);
 
     // Draw UI
-    this.renderSystem.drawScore(this.state.score);
+    this.renderSystem.drawScore(this.state.score, this.combo.getMultiplier());
+    this.renderSystem.drawPowerUpTimers(this.powerUps.getActive());
     this.renderSystem.drawFPS(1000 / this.fixedTimeStep);
+    if (this.state.mode === "daily") {
+      this.renderSystem.drawModeBadge("DAILY");
+    }
 
     // Draw overlays
     if (this.state.isPaused) {
@@ -320,7 +599,10 @@ export class GameEngine {
     }
 
     if (!this.state.isRunning && this.player) {
-      this.renderSystem.drawGameOver(this.state.score);
+      this.renderSystem.drawGameOver(
+        this.state.score,
+        this.state.scoreBreakdown,
+      );
     }
 
     this.renderSystem.endFrame();
@@ -332,7 +614,10 @@ export class GameEngine {
   private handlePlayerInput(): void {
     if (!this.player) return;
 
-    const input = this.inputHandler.getInputState();
+    const input = this.inputSource
+      ? this.inputSource()
+      : this.inputHandler.getInputState();
+    this.recorder.record(input);
 
     // Horizontal movement
     if (input.left) {
@@ -343,16 +628,14 @@ export class GameEngine {
       this.player.stopHorizontalMovement();
     }
 
-    // Jump
-    if (input.space && this.player.canJump()) {
-      this.player.jump();
+    // Duck / slide (fast-fall while airborne)
+    this.player.duck(input.down);
+
+    // Jump - buffered presses and early release are handled by the player
+    if (this.player.setJumpInput(input.space)) {
       this.audioSystem.playJump();
       this.createJumpParticles();
-    }
-
-    // Pause
-    if (input.pause) {
-      this.pause();
+      this.emitEvent({ type: "jump", timestamp: Date.now() });
     }
   }
 
@@ -360,37 +643,173 @@ export class GameEngine {
    * Spawn new entities
    */
   private spawnEntities(): void {
-    // Spawn obstacles
-    if (Math.random() < this.config.spawnRate) {
-      const obstacle = this.obstacles.acquire();
-      const type = Math.random() > 0.5 ? "bug" : "error";
-      const config: ObstacleConfig = {
-        position: { x: this.config.width, y: this.GROUND_Y - 20 }, // 20px = obstacle height
-        size: { width: 16, height: 20 },
-        type,
-      };
+    const { difficulty } = this.state;
+    const spawnRate = this.stageSystem.getSpawnRate(difficulty.spawnRate);
 
-      obstacle.setSpawnPosition(config.position.x, config.position.y);
-      (obstacle as any).obstacleType = type;
+    // Pick the next obstacle first so its gap can fit its size
+    if (!this.nextObstacleType) {
+      this.nextObstacleType = this.pickObstacleType();
+    }
+    const definition = getObstacleDefinition(this.nextObstacleType);
+
+    // Spawn obstacles only at gaps the player can actually clear
+    const gapRange = this.spawnPlanner.getGapRange(
+      this.getPlanningSpeed(),
+      definition.width,
+      getClearanceHeight(definition),
+      difficulty.minObstacleGap,
+      this.lastObstacleSize,
+    );
+    if (
+      this.spawnPlanner.shouldSpawn(
+        this.rng,
+        this.getObstacleGap(),
+        gapRange,
+        spawnRate,
+      )
+    ) {
+      this.spawnObstacle(this.nextObstacleType, this.config.width);
+      this.nextObstacleType = null;
     }
 
     // Spawn collectibles
-    if (Math.random() < this.config.spawnRate * 0.5) {
-      const collectible = this.collectibles.acquire();
-      const type = Math.random() > 0.5 ? "commit" : "star";
-      const config: CollectibleConfig = {
-        position: {
-          x: this.config.width,
-          y: this.config.height - 80 - Math.random() * 40,
-        },
-        size: { width: 16, height: 16 },
-        points: type === "commit" ? 10 : 25,
+    if (this.rng.chance(spawnRate * 0.5)) {
+      const type = this.pickCollectibleType();
+      this.spawnCollectible(
         type,
+        this.config.width,
+        this.config.height - 80 - this.rng.next() * 40,
+      );
+    }
+  }
+
+  /**
+   * Roll a random collectible - mostly points, sometimes a power-up
+   */
+  private pickCollectibleType(): CollectibleType {
+    if (this.rng.chance(this.config.powerUpChance ?? 0.1)) {
+      return this.rng.pick(POWER_UP_TYPES);
+    }
+    return this.rng.next() > 0.5 ? "commit" : "star";
+  }
+
+  /**
+   * Place an obstacle on the ground at the given x
+   */
+  private spawnObstacle(type: ObstacleType, x: number): void {
+    const obstacle = this.obstacles.acquire();
+    const definition = getObstacleDefinition(type);
+
+    // Size and height above the ground come from the type definition
+    obstacle.setType(type);
+    obstacle.setSpawnPosition(
+      x,
+      this.GROUND_Y - definition.elevation - definition.height,
+    );
+    if (x + definition.width >= this.lastObstacleEdge) {
+      this.lastObstacleEdge = x + definition.width;
+      this.lastObstacleSize = {
+        width: definition.width,
+        height: getClearanceHeight(definition),
       };
+    }
+  }
+
+  /**
+   * Roll a random obstacle type from the difficulty mix, skipping types not
+   * unlocked yet or too long to jump at the current speed
+   */
+  private pickObstacleType(): ObstacleType {
+    const { level, obstacleWeights } = this.state.difficulty;
+    const allowed: Partial<Record<ObstacleType, number>> = {};
+
+    for (const [type, weight] of Object.entries(obstacleWeights) as [
+      ObstacleType,
+      number,
+    ][]) {
+      const definition = getObstacleDefinition(type);
+      if (level < definition.minLevel) continue;
+      if (
+        !this.spawnPlanner.canClear(
+          definition.width,
+          getClearanceHeight(definition),
+          this.getPlanningSpeed() * this.powerUps.getSlowestSpeedScale(),
+        )
+      ) {
+        continue;
+      }
+      allowed[type] = weight;
+    }
+
+    return this.rng.weighted(allowed) ?? "bug";
+  }
 
-      collectible.setSpawnPosition(config.position.x, config.position.y);
-      (collectible as any).collectibleType = type;
-      (collectible as any).points = config.points;
+  /**
+   * Place a collectible at the given position
+   */
+  private spawnCollectible(
+    type: CollectibleType,
+    x: number,
+    y: number,
+    points?: number,
+  ): void {
+    const collectible = this.collectibles.acquire();
+    const config: CollectibleConfig = {
+      position: { x, y },
+      size: { width: 16, height: 16 },
+      points: points ?? this.getDefaultPoints(type),
+      type,
+    };
+
+    collectible.setSpawnPosition(config.position.x, config.position.y);
+    (collectible as any).collectibleType = type;
+    (collectible as any).points = config.points;
+  }
+
+  /**
+   * Points for a collectible type when a placement doesn't set them
+   */
+  private getDefaultPoints(type: CollectibleType): number {
+    if (isPowerUp(type)) return POWER_UP_DEFINITIONS[type].points;
+    return type === "commit" ? 10 : 25;
+  }
+
+  /**
+   * Apply scripted stage spawns, speed changes and transitions
+   */
+  private applyStageUpdate(update: StageUpdate): void {
+    if (update.enteredStage) {
+      this.state.stage = update.enteredStage.id;
+      this.emitEvent({
+        type: "stage",
+        data: { id: update.enteredStage.id, name: update.enteredStage.name },
+        timestamp: Date.now(),
+      });
+    }
+
+    if (update.completed) {
+      this.state.stage = null;
+      this.emitEvent({
+        type: "stage",
+        data: { id: null, completed: true },
+        timestamp: Date.now(),
+      });
+    }
+
+    for (const placement of update.obstacles) {
+      this.spawnObstacle(
+        placement.type,
+        this.config.width + (placement.offsetX || 0),
+      );
+    }
+
+    for (const placement of update.collectibles) {
+      this.spawnCollectible(
+        placement.type,
+        this.config.width + (placement.offsetX || 0),
+        this.GROUND_Y - (placement.height ?? 60),
+        placement.points,
+      );
     }
   }
 
@@ -403,9 +822,26 @@ export class GameEngine {
     // Check obstacle collisions
     for (const obstacle of this.obstacles.getActive()) {
       if (this.physicsSystem.checkCollision(this.player, obstacle)) {
+        // Test coverage soaks up one hit and clears the obstacle
+        if (this.powerUps.consumeShield()) {
+          this.obstacles.release(obstacle);
+          this.createCollectParticles(obstacle.position);
+          this.renderSystem.triggerFlash("#8bac0f", 0.4);
+          this.emitPowerUpEnd("shield", "absorbed");
+          continue;
+        }
+
+        this.deathCause = obstacle.obstacleType;
+        this.emitEvent({
+          type: "collision",
+          data: { type: obstacle.obstacleType },
+          timestamp: Date.now(),
+        });
         this.gameOver();
         return;
       }
+
+      this.trackNearMiss(obstacle);
     }
 
     // Check collectible collisions
@@ -420,10 +856,16 @@ export class GameEngine {
    * Handle item collection
    */
   private collectItem(collectible: Collectible): void {
-    const points = (collectible as any).points || 10;
+    const combo = this.combo.hit();
+    const points =
+      ((collectible as any).points || 10) *
+      this.powerUps.getScoreMultiplier() *
+      combo.multiplier;
+    const type = collectible.collectibleType;
 
     // Play collect sound
     this.audioSystem.playCollect();
+    this.state.collected++;
 
     // Create particle effect
     this.createCollectParticles(collectible.position);
@@ -432,12 +874,107 @@ export class GameEngine {
     // Emit collect event
     this.emitEvent({
       type: "collect",
-      data: { points, position: collectible.position },
+      data: { points, type, position: collectible.position },
       timestamp: Date.now(),
     });
 
+    this.emitCombo("collect", points);
+
+    if (isPowerUp(type)) {
+      const powerUp = this.powerUps.activate(type);
+      this.emitEvent({
+        type: "powerupstart",
+        data: { type, duration: powerUp.duration },
+        timestamp: Date.now(),
+      });
+    }
+
     // Update score atomically
-    this.addScore(points);
+    this.addScore(points, "collectibles");
+  }
+
+  /**
+   * Record how close the player comes to an obstacle while it passes, and
+   * award style points once a close one is behind them
+   */
+  private trackNearMiss(obstacle: Obstacle): void {
+    if (!this.player || obstacle.passed) return;
+
+    const player = this.player.getBoundingBox();
+    const box = obstacle.getBoundingBox();
+
+    if (box.x < player.x + player.width && box.x + box.width > player.x) {
+      // Space above or below the player while overlapping horizontally
+      const gap = Math.max(
+        box.y - (player.y + player.height),
+        player.y - (box.y + box.height),
+      );
+      obstacle.closestGap = Math.min(obstacle.closestGap, gap);
+    } else if (box.x + box.width <= player.x) {
+      obstacle.passed = true;
+      if (this.combo.isNearMiss(obstacle.closestGap)) {
+        const combo = this.combo.hit();
+        const points =
+          this.combo.getStylePoints() *
+          this.powerUps.getScoreMultiplier() *
+          combo.multiplier;
+        this.emitCombo("nearmiss", points);
+        this.addScore(points, "bonuses");
+      }
+    }
+  }
+
+  private emitCombo(
+    reason: "collect" | "nearmiss" | "ended",
+    points: number,
+  ): void {
+    this.emitEvent({
+      type: "combo",
+      data: { ...this.combo.getState(), reason, points },
+      timestamp: Date.now(),
+    });
+  }
+
+  /**
+   * Count down power-ups and pull collectibles in while the magnet runs
+   */
+  private updatePowerUps(deltaTime: number): void {
+    for (const type of this.powerUps.update(deltaTime)) {
+      this.emitPowerUpEnd(type, "expired");
+    }
+
+    const radius = this.powerUps.getMagnetRadius();
+    if (radius <= 0 || !this.player) return;
+
+    const strength = this.powerUps.getMagnetStrength();
+    const target = {
+      x: this.player.position.x + this.player.size.width / 2,
+      y: this.player.position.y + this.player.size.height / 2,
+    };
+
+    for (const collectible of this.collectibles.getActive()) {
+      const dx =
+        target.x - (collectible.position.x + collectible.size.width / 2);
+      const dy =
+        target.y - (collectible.position.y + collectible.size.height / 2);
+      const distance = Math.hypot(dx, dy);
+      if (distance === 0 || distance > radius) continue;
+
+      const pull = Math.min(strength, distance) / distance;
+      collectible.position.x += dx * pull;
+      collectible.position.y += dy * pull;
+    }
+  }
+
+  private emitPowerUpEnd(
+    type: PowerUpType,
+    reason: "expired" | "absorbed",
+  ): void {
+    this.emitEvent({
+      type: "powerupend",
+      data: { type, reason },
+      timestamp: Date.now(),
+    });
   }
 
   /**
@@ -447,9 +984,6 @@ export class GameEngine {
     // Play game over sound
     this.audioSystem.playGameOver();
 
-    // Update high score
-    this.updateHighScore();
-
     // Create game over effects
     this.createGameOverParticles();
     this.renderSystem.triggerFlash("#306230", 0.6);
@@ -458,14 +992,52 @@ export class GameEngine {
   }
 
   /**
-   * Increase game difficulty
+   * Advance play time and distance, then apply the difficulty curve
    */
-  private increaseDifficulty(): void {
-    if (this.state.score > 0 && this.state.score % 50 === 0) {
-      this.state.gameSpeed = Math.min(this.state.gameSpeed + 0.5, 12);
+  private updateDifficulty(deltaTime: number): void {
+    this.state.elapsedTime += deltaTime;
+    this.state.difficulty = this.difficultySystem.evaluate(
+      this.state.elapsedTime,
+      this.state.distance,
+    );
+
+    // Stage speeds and pinned speeds take priority over the curve, and
+    // slow motion scales whichever applies
+    const speed =
+      this.stageSystem.getSpeedOverride() ??
+      this.speedOverride ??
+      this.state.difficulty.gameSpeed;
+    this.state.gameSpeed = speed * this.powerUps.getSpeedScale();
+
+    this.state.distance += this.state.gameSpeed;
+
+    // Survival pays too - one point per interval scrolled
+    const distancePoints = Math.floor(
+      this.state.distance / (this.config.distanceScoreInterval ?? 25),
+    );
+    if (distancePoints > this.state.scoreBreakdown.distance) {
+      this.addScore(
+        distancePoints - this.state.scoreBreakdown.distance,
+        "distance",
+      );
     }
   }
 
+  /**
+   * Speed to plan obstacle gaps for - full speed even during slow motion,
+   * so gaps stay fair once it wears off
+   */
+  private getPlanningSpeed(): number {
+    return this.state.gameSpeed / this.powerUps.getSpeedScale();
+  }
+
+  /**
+   * Distance from the right edge of the newest obstacle to the spawn point
+   */
+  private getObstacleGap(): number {
+    return this.config.width - this.lastObstacleEdge;
+  }
+
   /**
    * Create particle effects
    */
@@ -479,8 +1051,8 @@ export class GameEngine {
           y: this.player.position.y + this.player.size.height,
         },
         velocity: {
-          x: (Math.random() - 0.5) * 4,
-          y: Math.random() * -2,
+          x: (this.rng.next() - 0.5) * 4,
+          y: this.rng.next() * -2,
         },
         life: 1,
         color: "#8bac0f",
@@ -515,8 +1087,8 @@ export class GameEngine {
           y: this.player.position.y + this.player.size.height / 2,
         },
         velocity: {
-          x: (Math.random() - 0.5) * 8,
-          y: (Math.random() - 0.5) * 8,
+          x: (this.rng.next() - 0.5) * 8,
+          y: (this.rng.next() - 0.5) * 8,
         },
         life: 1,
         color: "#306230",
@@ -554,9 +1126,72 @@ export class GameEngine {
     this.obstacles.releaseAll();
     this.collectibles.releaseAll();
     this.particles = [];
+    this.stageSystem.reset();
+    this.state.stage = null;
     this.inputHandler.reset();
   }
 
+  /**
+   * Rewind play time, distance and the difficulty curve
+   */
+  private resetProgress(): void {
+    this.state.elapsedTime = 0;
+    this.state.distance = 0;
+    this.state.collected = 0;
+    this.state.scoreBreakdown = { distance: 0, collectibles: 0, bonuses: 0 };
+    this.deathCause = null;
+    this.ghost.stop();
+    this.powerUps.reset();
+    this.combo.reset();
+    this.runId = null;
+    this.state.difficulty = this.difficultySystem.evaluate(0, 0);
+    this.speedOverride = null;
+    // Give the player a full minimum gap before the first obstacle
+    this.lastObstacleEdge = this.config.width;
+    this.lastObstacleSize = { width: 0, height: 0 };
+    this.nextObstacleType = null;
+  }
+
+  /**
+   * Player setup shared by the live player and the ghost - feet on the ground
+   */
+  private createPlayerConfig(): PlayerConfig {
+    return {
+      position: { x: 50, y: this.GROUND_Y - 20 }, // 20px = player height
+      size: { width: 20, height: 20 },
+      jumpPower: this.config.jumpPower,
+      gravity: this.config.gravity,
+      groundY: this.GROUND_Y - 20, // Player's ground reference is their feet position
+    };
+  }
+
+  /**
+   * Seed the RNG for a new run - pinned seeds replay the same run every time,
+   * a one-off seed only this run
+   */
+  private seedRun(seed: number | null): void {
+    this.rng.reset(
+      this.state.daily !== null
+        ? getDailySeed(this.state.daily)
+        : (seed ?? this.pinnedSeed ?? SeededRandom.generateSeed()),
+    );
+    this.state.seed = this.rng.getSeed();
+  }
+
+  /**
+   * Set the spawn rate and difficulty curve of the run about to start.
+   * Daily runs use the normal preset so every visitor gets the same course
+   * and comparable bests; ghost races use the ghost's own tuning
+   */
+  private applyRunTuning(tuning: GameTuning | null): void {
+    const preset =
+      this.state.mode === "daily" ? "normal" : this.settings.difficulty;
+    const { spawnRate, difficulty } =
+      tuning ?? getPresetTuning(this.baseConfig, preset);
+    this.config.spawnRate = spawnRate;
+    this.config.difficulty = difficulty;
+  }
+
   /**
    * Setup input callbacks
    */
@@ -565,8 +1200,17 @@ export class GameEngine {
       // Jump sound is now played in handlePlayerInput
     });
 
+    // Every pause source (keys, Start, gestures, UI) comes through here once
     this.inputHandler.onCallback("pause", () => {
-      // Pause sound could be added here if needed
+      this.pause();
+    });
+
+    this.inputHandler.setGamepadCallback((gamepad, connected) => {
+      this.emitEvent({
+        type: connected ? "gamepadconnected" : "gamepaddisconnected",
+        data: gamepad,
+        timestamp: Date.now(),
+      });
     });
   }
 
@@ -587,19 +1231,32 @@ export class GameEngine {
   }
 
   /**
-   * Update high score in localStorage
+   * Record the current run on the local leaderboard.
+   * Returns its 0-based rank, or -1 if it didn't place.
    */
-  private updateHighScore(): void {
-    if (typeof window === "undefined") return;
+  private recordRun(): number {
+    this.lastRun = null;
 
-    try {
-      const currentHighScore = this.getHighScore();
-      if (this.state.score > currentHighScore) {
-        localStorage.setItem(this.highScoreKey, this.state.score.toString());
-      }
-    } catch (error) {
-      console.warn("GameEngine: Failed to update high score:", error);
+    // Simulations and replays must never overwrite the player's saved scores
+    if (this.headless || typeof window === "undefined") return -1;
+    if (this.isReplayRun) return -1;
+    if (this.state.score <= 0) return -1;
+
+    // Stopping the same run again updates its entry instead of adding one
+    if (!this.runId) {
+      this.runId = `${Date.now().toString(36)}-${this.state.seed.toString(36)}`;
     }
+
+    this.lastRun = {
+      id: this.runId,
+      initials: "",
+      score: this.state.score,
+      date: new Date().toISOString(),
+      duration: Math.round(this.state.elapsedTime),
+      collectibles: this.state.collected,
+      seed: this.state.seed,
+    };
+    return this.leaderboard.submit(this.lastRun);
   }
 
   /**
@@ -610,26 +1267,94 @@ export class GameEngine {
     return this.state.score;
   }
 
+  /**
+   * Power-ups running right now, with time left (for custom HUDs)
+   */
+  public getActivePowerUps(): ActivePowerUp[] {
+    return this.powerUps.getActive();
+  }
+
+  /**
+   * Current combo chain and multiplier
+   */
+  public getCombo(): ComboState {
+    return this.combo.getState();
+  }
+
+  /**
+   * Every achievement with its unlock state and progress
+   */
+  public getAchievements(): AchievementProgress[] {
+    return this.achievements.getProgress();
+  }
+
+  /**
+   * Lifetime stats across every finished run
+   */
+  public getStats(): LifetimeStats {
+    return this.stats.getStats();
+  }
+
   public getHighScore(): number {
     if (typeof window === "undefined") return 0;
-
-    try {
-      const stored = localStorage.getItem(this.highScoreKey);
-      return stored ? parseInt(stored, 10) : 0;
-    } catch (error) {
-      console.warn("GameEngine: Failed to read high score:", error);
-      return 0;
-    }
+    return this.leaderboard.getTopScore();
   }
 
   public resetHighScore(): void {
     if (typeof window === "undefined") return;
+    this.leaderboard.clear();
+  }
 
-    try {
-      localStorage.removeItem(this.highScoreKey);
-    } catch (error) {
-      console.warn("GameEngine: Failed to reset high score:", error);
-    }
+  /**
+   * Local leaderboard entries, best first
+   */
+  public getLeaderboard(): LeaderboardEntry[] {
+    if (typeof window === "undefined") return [];
+    return this.leaderboard.getEntries();
+  }
+
+  /**
+   * Name a leaderboard entry (from the gameover event's entryId)
+   */
+  public setLeaderboardInitials(entryId: string, initials: string): boolean {
+    if (typeof window === "undefined") return false;
+    return this.leaderboard.setInitials(entryId, initials);
+  }
+
+  public getLeaderboardProvider(): LeaderboardProvider {
+    return this.leaderboardProvider;
+  }
+
+  /**
+   * Plug in a leaderboard backend - null goes back to the local board
+   */
+  public setLeaderboardProvider(provider: LeaderboardProvider | null): void {
+    this.leaderboardProvider = provider ?? this.localProvider;
+  }
+
+  /**
+   * The most recently finished run with a score, whether or not it placed
+   */
+  public getLastRun(): LeaderboardEntry | null {
+    return this.lastRun ? { ...this.lastRun } : null;
+  }
+
+  /**
+   * Name the last run and submit it, with its replay, to the provider
+   */
+  public submitLastRun(
+    initials: string = "",
+  ): Promise<LeaderboardSubmitResult> {
+    if (!this.lastRun) return Promise.resolve({ accepted: false, rank: -1 });
+
+    const entry = { ...this.lastRun, initials: normalizeInitials(initials) };
+    this.lastRun = entry;
+    this.leaderboard.setInitials(entry.id, entry.initials);
+
+    return this.leaderboardProvider.submit({
+      entry,
+      replay: this.lastReplay,
+    });
   }
 
   public setScoreChangeCallback(callback: (score: number) => void): void {
@@ -640,6 +1365,10 @@ export class GameEngine {
     return this.audioSystem;
   }
 
+  public getInputHandler(): InputHandler {
+    return this.inputHandler;
+  }
+
   public isPlaying(): boolean {
     return this.state.isRunning && !this.state.isPaused;
   }
@@ -648,8 +1377,16 @@ export class GameEngine {
     return this.state.isPaused;
   }
 
+  public isHeadless(): boolean {
+    return this.headless;
+  }
+
+  public getFixedTimeStep(): number {
+    return this.fixedTimeStep;
+  }
+
   public getGameState(): GameState {
-    return { ...this.state };
+    return { ...this.state, scoreBreakdown: { ...this.state.scoreBreakdown } };
   }
 
   public addEventListener(
@@ -675,8 +1412,244 @@ export class GameEngine {
     }
   }
 
+  /**
+   * Get the seed of the current (or most recent) run
+   */
+  public getSeed(): number {
+    return this.state.seed;
+  }
+
+  /**
+   * Pin the seed used by subsequent runs, or pass null for a fresh seed per run
+   */
+  public setSeed(seed: number | null): void {
+    this.pinnedSeed = seed === null ? null : SeededRandom.normalizeSeed(seed);
+  }
+
+  /**
+   * Get the seed pinned for upcoming runs, or null if each run picks its own
+   */
+  public getPinnedSeed(): number | null {
+    return this.pinnedSeed;
+  }
+
+  /**
+   * Get the gameplay config that a replay needs to reproduce a run
+   */
+  public getGameConfig(): GameConfig {
+    const {
+      width,
+      height,
+      targetFPS,
+      gravity,
+      jumpPower,
+      gameSpeed,
+      spawnRate,
+      stages,
+      difficulty,
+      powerUpChance,
+      distanceScoreInterval,
+    } = this.config;
+    return {
+      width,
+      height,
+      targetFPS,
+      gravity,
+      jumpPower,
+      gameSpeed,
+      spawnRate,
+      stages,
+      difficulty,
+      powerUpChance,
+      distanceScoreInterval,
+    };
+  }
+
+  /**
+   * Override where per-step input comes from (null restores the InputHandler).
+   * Runs started on a replay source, given with the config it was recorded
+   * on, use its spawn rate and difficulty and are played back, not recorded
+   */
+  public setInputSource(
+    source: (() => InputState) | null,
+    recordedConfig: GameConfig | null = null,
+  ): void {
+    this.inputSource = source;
+    this.replayTuning =
+      source !== null && recordedConfig !== null
+        ? {
+            spawnRate: recordedConfig.spawnRate,
+            difficulty: recordedConfig.difficulty,
+          }
+        : null;
+    // Between runs the config always describes the next one
+    if (!this.state.isRunning) this.applyRunTuning(this.replayTuning);
+  }
+
+  /**
+   * Get the replay of the most recently finished run
+   */
+  public getLastReplay(): ReplayData | null {
+    return this.lastReplay;
+  }
+
+  /**
+   * Current player settings
+   */
+  public getSettings(): GameSettings {
+    return { ...this.settings };
+  }
+
+  /**
+   * Change settings live and save them. Audio and display changes apply at
+   * once, a new difficulty preset from the next run on
+   */
+  public updateSettings(changes: Partial<GameSettings>): GameSettings {
+    const previous = this.settings;
+    const settings = sanitizeSettings({ ...previous, ...changes }, previous);
+    this.settings = settings;
+
+    this.audioSystem.setVolume(settings.volume);
+    if (settings.muted !== previous.muted) {
+      if (settings.muted) {
+        this.audioSystem.mute();
+      } else {
+        this.audioSystem.unmute();
+      }
+    }
+
+    this.renderSystem.setOptions({
+      showHitboxes: settings.showHitboxes,
+      showFPS: settings.showFPS,
+      reducedMotion: settings.reducedMotion,
+    });
+
+    const applied = applySettingsToConfig(this.baseConfig, settings);
+    this.config.spawnRate = applied.spawnRate;
+    this.config.difficulty = applied.difficulty;
+
+    // Simulations never touch the player's saved settings
+    if (!this.headless) saveSettings(settings);
+    return this.getSettings();
+  }
+
+  /**
+   * Restore default settings
+   */
+  public resetSettings(): GameSettings {
+    return this.updateSettings(getDefaultSettings());
+  }
+
+  /**
+   * Game mode used from the next run on
+   */
+  public getMode(): GameMode {
+    return this.mode;
+  }
+
+  /**
+   * Switch modes from the next run on - daily runs ignore any pinned seed
+   */
+  public setMode(mode: GameMode): void {
+    this.mode = mode;
+  }
+
+  /**
+   * Restart on today's daily challenge. Only this run is a daily run - the
+   * next start goes back to the mode set with setMode()
+   */
+  public startDaily(): void {
+    this.nextRun = { mode: "daily", seed: null, tuning: null };
+    this.restart();
+  }
+
+  /**
+   * Best score of a day's challenge (today by default), null if unplayed
+   */
+  public getDailyBest(key: string = getDailyKey()): number | null {
+    return this.daily.getBest(key);
+  }
+
+  /**
+   * Shareable result of the current or last daily run, null outside daily mode
+   */
+  public getDailyShareText(): string | null {
+    if (this.state.daily === null) return null;
+    return formatDailyResult(this.state.daily, this.state.score);
+  }
+
+  /**
+   * Score, date and mode of the current or last run, for score cards
+   */
+  public getScoreCardData(): ScoreCardData {
+    return {
+      score: this.state.score,
+      date: this.state.daily ?? getDailyKey(),
+      mode: this.state.mode,
+    };
+  }
+
+  /**
+   * Copyable result text of the current or last run
+   */
+  public getShareText(): string {
+    return formatShareText(this.getScoreCardData());
+  }
+
+  /**
+   * Render a PNG-ready score card from the game canvas - null when headless
+   */
+  public createScoreCard(): HTMLCanvasElement | null {
+    if (this.headless || !this.config.canvas) return null;
+    return createScoreCard(this.config.canvas, this.getScoreCardData());
+  }
+
+  /**
+   * Get the best recorded run, which new runs on its seed race as a ghost
+   */
+  public getBestRun(): ReplayData | null {
+    return this.ghost.getBest();
+  }
+
+  /**
+   * Restart on the best run's seed and tuning so its ghost runs alongside.
+   * Only this run uses them - returns false with no best run
+   */
+  public raceGhost(): boolean {
+    const best = this.ghost.getBest();
+    if (!best) return false;
+
+    // The ghost's seed and tuning decide the course, not the date or preset
+    const { spawnRate, difficulty } = best.config;
+    this.nextRun = {
+      mode: "endless",
+      seed: best.seed,
+      tuning: { spawnRate, difficulty },
+    };
+    this.restart();
+    return true;
+  }
+
+  /**
+   * Check if a ghost is running alongside the current run
+   */
+  public isRacingGhost(): boolean {
+    return this.ghost.isRacing();
+  }
+
+  /**
+   * Forget the best run and its ghost
+   */
+  public clearGhost(): void {
+    this.ghost.clear();
+  }
+
+  /**
+   * Pin the scroll speed for the rest of the run (overrides the curve)
+   */
   public setGameSpeed(speed: number): void {
-    this.state.gameSpeed = Math.max(1, Math.min(speed, 20));
+    this.speedOverride = Math.max(1, Math.min(speed, 20));
+    this.state.gameSpeed = this.speedOverride;
   }
 
   public setScore(score: number): void {
@@ -685,10 +1658,16 @@ export class GameEngine {
   }
 
   /**
-   * Add points to current score (atomic operation)
+   * Add points to current score (atomic operation), counted towards one
+   * part of the score breakdown
    */
-  public addScore(points: number): void {
+  public addScore(
+    points: number,
+    source: keyof ScoreBreakdown = "bonuses",
+  ): void {
+    const before = this.state.score;
     this.state.score = Math.max(0, this.state.score + points);
+    this.state.scoreBreakdown[source] += this.state.score - before;
     this.notifyScoreChange();
   }
 
@@ -0,0 +1,224 @@
+/**
+ * Achievement System - Turns the engine's event stream into persistent unlocks
+ *
+ * Run stats are rebuilt from `gamestart`, `collect`, `score` and `gameover`
+ * events, so the system never reaches into engine state. Running totals,
+ * best runs and unlocks are saved in localStorage.
+ */
+
+import type {
+  AchievementDefinition,
+  AchievementMetric,
+  AchievementProgress,
+  CollectibleType,
+  GameEvent,
+} from "../types/GameTypes";
+import { ACHIEVEMENT_DEFINITIONS } from "./achievements";
+import { isPowerUp } from "../entities/powerUpTypes";
+import { RunTracker } from "../utils/RunTracker";
+import { loadVersioned, removeStored, saveVersioned } from "../utils/Storage";
+
+export const ACHIEVEMENTS_VERSION = 1;
+export const ACHIEVEMENTS_KEY = "miniGameAchievements";
+
+type AchievementStats = Record<AchievementMetric, number>;
+
+interface AchievementRecord {
+  /** Unlock date (ISO) by achievement id */
+  unlocked: Record<string, string>;
+  totals: AchievementStats;
+  best: AchievementStats;
+}
+
+export interface AchievementSystemOptions {
+  definitions?: AchievementDefinition[];
+  storageKey?: string;
+  /** Keep unlocks in memory only (e.g. for simulations) */
+  persist?: boolean;
+  onUnlock?: (achievement: AchievementProgress) => void;
+}
+
+function emptyStats(): AchievementStats {
+  return {
+    collected: 0,
+    commits: 0,
+    stars: 0,
+    powerUps: 0,
+    score: 0,
+    survivalTime: 0,
+    distance: 0,
+    runs: 0,
+  };
+}
+
+/**
+ * Keep known numeric stats from stored data, zero for anything else
+ */
+function sanitizeStats(value: unknown): AchievementStats {
+  const stats = emptyStats();
+  if (!value || typeof value !== "object") return stats;
+
+  for (const metric of Object.keys(stats) as AchievementMetric[]) {
+    const stored = (value as Record<string, unknown>)[metric];
+    if (typeof stored === "number" && Number.isFinite(stored)) {
+      stats[metric] = stored;
+    }
+  }
+  return stats;
+}
+
+export class AchievementSystem extends RunTracker {
+  private definitions: AchievementDefinition[];
+  private storageKey: string;
+  private persist: boolean;
+  private onUnlock?: (achievement: AchievementProgress) => void;
+  private record: AchievementRecord;
+  private run: AchievementStats = emptyStats();
+
+  constructor(options: AchievementSystemOptions = {}) {
+    super(["collect", "score"]);
+    this.definitions = options.definitions ?? ACHIEVEMENT_DEFINITIONS;
+    this.storageKey = options.storageKey ?? ACHIEVEMENTS_KEY;
+    this.persist = options.persist ?? true;
+    this.onUnlock = options.onUnlock;
+    this.record = this.load();
+  }
+
+  /**
+   * Every achievement with its progress, in definition order
+   */
+  public getProgress(): AchievementProgress[] {
+    return this.definitions.map((definition) => this.describe(definition));
+  }
+
+  public getUnlockedCount(): number {
+    return this.definitions.filter((d) => this.record.unlocked[d.id]).length;
+  }
+
+  /**
+   * Forget every unlock and stat
+   */
+  public clear(): void {
+    this.record = { unlocked: {}, totals: emptyStats(), best: emptyStats() };
+    this.run = emptyStats();
+    if (this.persist) removeStored(this.storageKey);
+  }
+
+  private countCollect(type: CollectibleType | undefined): void {
+    const metrics: AchievementMetric[] = ["collected"];
+    if (type === "commit") metrics.push("commits");
+    if (type === "star") metrics.push("stars");
+    if (type && isPowerUp(type)) metrics.push("powerUps");
+
+    for (const metric of metrics) {
+      this.run[metric]++;
+      this.record.totals[metric]++;
+    }
+  }
+
+  protected startRun(): void {
+    this.run = emptyStats();
+  }
+
+  /**
+   * Update run stats from a collect or score event and check for new unlocks
+   */
+  protected handleRunEvent(type: GameEvent["type"], data: any): void {
+    if (type === "collect") {
+      this.countCollect(data.type);
+    } else if (type === "score") {
+      this.run.score = Math.max(this.run.score, Number(data.score) || 0);
+    }
+    this.evaluate();
+  }
+
+  protected finishRun(data: any): void {
+    this.run.score = Math.max(this.run.score, Number(data.score) || 0);
+    this.run.survivalTime = Number(data.duration) || 0;
+    this.run.distance = Number(data.distance) || 0;
+    this.run.runs = 1;
+
+    const { totals, best } = this.record;
+    for (const metric of [
+      "score",
+      "survivalTime",
+      "distance",
+      "runs",
+    ] as AchievementMetric[]) {
+      totals[metric] += this.run[metric];
+    }
+    for (const metric of Object.keys(best) as AchievementMetric[]) {
+      best[metric] = Math.max(best[metric], this.run[metric]);
+    }
+
+    // Run totals are saved once per run rather than on every collect
+    this.save();
+    this.evaluate();
+  }
+
+  /**
+   * Unlock every achievement whose target has been reached
+   */
+  private evaluate(): void {
+    const unlocked: AchievementProgress[] = [];
+
+    for (const definition of this.definitions) {
+      if (this.record.unlocked[definition.id]) continue;
+      if (this.getValue(definition) < definition.target) continue;
+
+      this.record.unlocked[definition.id] = new Date().toISOString();
+      unlocked.push(this.describe(definition));
+    }
+
+    if (unlocked.length === 0) return;
+    this.save();
+    unlocked.forEach((achievement) => this.onUnlock?.(achievement));
+  }
+
+  private getValue(definition: AchievementDefinition): number {
+    if (definition.scope === "total") {
+      return this.record.totals[definition.metric];
+    }
+    return Math.max(
+      this.record.best[definition.metric],
+      this.run[definition.metric],
+    );
+  }
+
+  private describe(definition: AchievementDefinition): AchievementProgress {
+    const unlockedAt = this.record.unlocked[definition.id] ?? null;
+    return {
+      id: definition.id,
+      name: definition.name,
+      description: definition.description,
+      progress: Math.min(this.getValue(definition), definition.target),
+      target: definition.target,
+      unlocked: unlockedAt !== null,
+      unlockedAt,
+    };
+  }
+
+  private load(): AchievementRecord {
+    const stored = this.persist
+      ? loadVersioned<AchievementRecord>(this.storageKey, ACHIEVEMENTS_VERSION)
+      : null;
+
+    const unlocked: Record<string, string> = {};
+    if (stored && stored.unlocked && typeof stored.unlocked === "object") {
+      for (const [id, date] of Object.entries(stored.unlocked)) {
+        if (typeof date === "string") unlocked[id] = date;
+      }
+    }
+
+    return {
+      unlocked,
+      totals: sanitizeStats(stored?.totals),
+      best: sanitizeStats(stored?.best),
+    };
+  }
+
+  private save(): void {
+    if (!this.persist) return;
+    saveVersioned(this.storageKey, ACHIEVEMENTS_VERSION, this.record);
+  }
+}
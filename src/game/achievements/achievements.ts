@@ -0,0 +1,72 @@
+/**
+ * Achievement definitions - Unlock rules checked by the AchievementSystem
+ */
+
+import type { AchievementDefinition } from "../types/GameTypes";
+
+export const ACHIEVEMENT_DEFINITIONS: AchievementDefinition[] = [
+  {
+    id: "initial-commit",
+    name: "INITIAL COMMIT",
+    description: "Collect a commit",
+    metric: "commits",
+    target: 1,
+    scope: "run",
+  },
+  {
+    id: "star-gazer",
+    name: "STAR GAZER",
+    description: "Collect 10 stars in one run",
+    metric: "stars",
+    target: 10,
+    scope: "run",
+  },
+  {
+    id: "uptime",
+    name: "99.9% UPTIME",
+    description: "Survive 60 seconds",
+    metric: "survivalTime",
+    target: 60000,
+    scope: "run",
+  },
+  {
+    id: "long-haul",
+    name: "LONG HAUL",
+    description: "Run 20000px in one run",
+    metric: "distance",
+    target: 20000,
+    scope: "run",
+  },
+  {
+    id: "ship-it",
+    name: "SHIP IT",
+    description: "Score 500 in one run",
+    metric: "score",
+    target: 500,
+    scope: "run",
+  },
+  {
+    id: "power-user",
+    name: "POWER USER",
+    description: "Collect 10 power-ups",
+    metric: "powerUps",
+    target: 10,
+    scope: "total",
+  },
+  {
+    id: "prolific",
+    name: "PROLIFIC",
+    description: "Collect 100 commits",
+    metric: "commits",
+    target: 100,
+    scope: "total",
+  },
+  {
+    id: "daily-standup",
+    name: "DAILY STANDUP",
+    description: "Play 10 runs",
+    metric: "runs",
+    target: 10,
+    scope: "total",
+  },
+];
@@ -0,0 +1,120 @@
+/**
+ * Daily Challenge - One seed per UTC day so every visitor plays the same run
+ *
+ * The seed is a hash of the date key, and the best score for each day is
+ * kept separately from the all-time leaderboard.
+ */
+
+import { loadVersioned, removeStored, saveVersioned } from "../utils/Storage";
+
+export const DAILY_VERSION = 1;
+export const DAILY_KEY = "miniGameDaily";
+
+// Days of bests kept in storage - older days are dropped
+const MAX_DAYS = 30;
+
+export interface DailyChallengeOptions {
+  storageKey?: string;
+  /** Keep daily bests in memory only (e.g. for simulations) */
+  persist?: boolean;
+}
+
+interface DailyRecord {
+  /** Best score by date key */
+  best: Record<string, number>;
+}
+
+/**
+ * UTC date key (YYYY-MM-DD) for a moment in time
+ */
+export function getDailyKey(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Seed for a date key - FNV-1a over the key, so it is stable everywhere
+ */
+export function getDailySeed(key: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Plain-text result for sharing a daily run
+ */
+export function formatDailyResult(key: string, score: number): string {
+  return `Code Runner Daily ${key}: ${score} pts`;
+}
+
+export class DailyChallenge {
+  private storageKey: string;
+  private persist: boolean;
+  private record: DailyRecord;
+
+  constructor(options: DailyChallengeOptions = {}) {
+    this.storageKey = options.storageKey ?? DAILY_KEY;
+    this.persist = options.persist ?? true;
+    this.record = this.load();
+  }
+
+  /**
+   * Record a finished daily run - returns true if it set the day's best
+   */
+  public recordScore(key: string, score: number): boolean {
+    const best = this.record.best[key];
+    if (best !== undefined && score <= best) return false;
+
+    this.record.best[key] = score;
+    this.prune();
+    this.save();
+    return true;
+  }
+
+  /**
+   * Best score for a day, or null if it hasn't been played
+   */
+  public getBest(key: string = getDailyKey()): number | null {
+    return this.record.best[key] ?? null;
+  }
+
+  /**
+   * Forget every daily best
+   */
+  public clear(): void {
+    this.record = { best: {} };
+    if (this.persist) removeStored(this.storageKey);
+  }
+
+  private prune(): void {
+    // Date keys sort chronologically as strings
+    const keys = Object.keys(this.record.best).sort().reverse();
+    for (const key of keys.slice(MAX_DAYS)) {
+      delete this.record.best[key];
+    }
+  }
+
+  private load(): DailyRecord {
+    const stored = this.persist
+      ? loadVersioned<DailyRecord>(this.storageKey, DAILY_VERSION)
+      : null;
+
+    const best: Record<string, number> = {};
+    if (stored && stored.best && typeof stored.best === "object") {
+      for (const [key, score] of Object.entries(stored.best)) {
+        if (typeof score === "number" && Number.isFinite(score)) {
+          best[key] = score;
+        }
+      }
+    }
+    return { best };
+  }
+
+  private save(): void {
+    if (!this.persist) return;
+    saveVersioned(this.storageKey, DAILY_VERSION, this.record);
+  }
+}
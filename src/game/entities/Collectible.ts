@@ -49,13 +49,128 @@ export class Collectible extends Entity {
     if (this.collected) return;
 
     // Use GameBoy palette colors
-    if (this.collectibleType === "commit") {
-      this.renderCommit(ctx);
-    } else {
-      this.renderStar(ctx);
+    switch (this.collectibleType) {
+      case "commit":
+        this.renderCommit(ctx);
+        break;
+      case "shield":
+        this.renderShield(ctx);
+        break;
+      case "magnet":
+        this.renderMagnet(ctx);
+        break;
+      case "slowmo":
+        this.renderDebugger(ctx);
+        break;
+      case "multiplier":
+        this.renderMultiplier(ctx);
+        break;
+      default:
+        this.renderStar(ctx);
     }
   }
 
+  /**
+   * Power-ups share a blinking frame so they stand out from points
+   */
+  private renderPowerUpFrame(ctx: CanvasRenderingContext2D): void {
+    const x = this.position.x;
+    const y = this.position.y;
+
+    ctx.fillStyle = this.animationFrame % 2 === 0 ? "#0f380f" : "#306230";
+    ctx.fillRect(x, y, 16, 1); // Top
+    ctx.fillRect(x, y + 15, 16, 1); // Bottom
+    ctx.fillRect(x, y, 1, 16); // Left
+    ctx.fillRect(x + 15, y, 1, 16); // Right
+  }
+
+  /**
+   * Render test coverage shield
+   */
+  private renderShield(ctx: CanvasRenderingContext2D): void {
+    const x = this.position.x;
+    const y = this.position.y;
+    this.renderPowerUpFrame(ctx);
+
+    // Shield body
+    ctx.fillStyle = "#306230"; // Dark green
+    ctx.fillRect(x + 4, y + 3, 8, 6);
+    ctx.fillRect(x + 5, y + 9, 6, 2);
+    ctx.fillRect(x + 7, y + 11, 2, 2);
+
+    // Check mark
+    ctx.fillStyle = "#9bbc0f"; // Lightest green
+    ctx.fillRect(x + 5, y + 6, 1, 1);
+    ctx.fillRect(x + 6, y + 7, 1, 1);
+    ctx.fillRect(x + 7, y + 6, 1, 1);
+    ctx.fillRect(x + 8, y + 5, 1, 1);
+    ctx.fillRect(x + 9, y + 4, 1, 1);
+  }
+
+  /**
+   * Render CI magnet
+   */
+  private renderMagnet(ctx: CanvasRenderingContext2D): void {
+    const x = this.position.x;
+    const y = this.position.y;
+    this.renderPowerUpFrame(ctx);
+
+    // U-shaped body
+    ctx.fillStyle = "#306230"; // Dark green
+    ctx.fillRect(x + 3, y + 4, 3, 7);
+    ctx.fillRect(x + 10, y + 4, 3, 7);
+    ctx.fillRect(x + 3, y + 10, 10, 3);
+
+    // Pole tips
+    ctx.fillStyle = "#9bbc0f"; // Lightest green
+    ctx.fillRect(x + 3, y + 3, 3, 2);
+    ctx.fillRect(x + 10, y + 3, 3, 2);
+  }
+
+  /**
+   * Render debugger (slow motion) as a pause-style breakpoint
+   */
+  private renderDebugger(ctx: CanvasRenderingContext2D): void {
+    const x = this.position.x;
+    const y = this.position.y;
+    this.renderPowerUpFrame(ctx);
+
+    // Breakpoint dot
+    ctx.fillStyle = "#306230"; // Dark green
+    ctx.fillRect(x + 4, y + 5, 8, 6);
+    ctx.fillRect(x + 5, y + 4, 6, 8);
+
+    // Pause bars
+    ctx.fillStyle = "#9bbc0f"; // Lightest green
+    ctx.fillRect(x + 6, y + 6, 1, 4);
+    ctx.fillRect(x + 9, y + 6, 1, 4);
+  }
+
+  /**
+   * Render double points as "2x"
+   */
+  private renderMultiplier(ctx: CanvasRenderingContext2D): void {
+    const x = this.position.x;
+    const y = this.position.y;
+    this.renderPowerUpFrame(ctx);
+
+    ctx.fillStyle = "#306230"; // Dark green
+
+    // "2"
+    ctx.fillRect(x + 3, y + 4, 4, 1);
+    ctx.fillRect(x + 6, y + 5, 1, 2);
+    ctx.fillRect(x + 3, y + 7, 4, 1);
+    ctx.fillRect(x + 3, y + 8, 1, 2);
+    ctx.fillRect(x + 3, y + 10, 4, 1);
+
+    // "x"
+    ctx.fillRect(x + 9, y + 7, 1, 1);
+    ctx.fillRect(x + 12, y + 7, 1, 1);
+    ctx.fillRect(x + 10, y + 8, 2, 2);
+    ctx.fillRect(x + 9, y + 10, 1, 1);
+    ctx.fillRect(x + 12, y + 10, 1, 1);
+  }
+
   /**
    * Render commit icon (git commit symbol)
    */
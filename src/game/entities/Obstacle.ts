@@ -3,16 +3,45 @@
  */
 
 import { Entity } from "./Entity";
-import type { ObstacleConfig, ObstacleType } from "../types/GameTypes";
+import { getObstacleDefinition } from "./obstacleTypes";
+import type {
+  BoundingBox,
+  ObstacleConfig,
+  ObstacleDefinition,
+  ObstacleType,
+} from "../types/GameTypes";
 
 export class Obstacle extends Entity {
   public obstacleType: ObstacleType;
   public animationFrame: number = 0;
   public animationTimer: number = 0;
 
+  // Resting y position and time since spawn, for moving behaviors
+  private baseY: number;
+  private behaviorTimer: number = 0;
+
+  // Closest the player came while passing, for near-miss style points
+  public closestGap: number = Infinity;
+  public passed: boolean = false;
+
   constructor(config: ObstacleConfig) {
     super(config, "obstacle");
     this.obstacleType = config.type;
+    this.baseY = config.position.y;
+  }
+
+  /**
+   * Switch to another obstacle type, taking its size from the definitions
+   */
+  public setType(type: ObstacleType): void {
+    const definition = getObstacleDefinition(type);
+    this.obstacleType = type;
+    this.size.width = definition.width;
+    this.size.height = definition.height;
+  }
+
+  public getDefinition(): ObstacleDefinition {
+    return getObstacleDefinition(this.obstacleType);
   }
 
   /**
@@ -22,9 +51,20 @@ export class Obstacle extends Entity {
     // Move obstacle from right to left
     this.position.x -= gameSpeed;
 
-    // Update animation
+    // Bounce on a fixed arc - driven by time only so runs stay deterministic
+    const definition = this.getDefinition();
+    this.behaviorTimer += deltaTime;
+    if (definition.behavior === "bouncing") {
+      const period = definition.bouncePeriod ?? 1000;
+      const phase = (this.behaviorTimer / period) * Math.PI;
+      this.position.y =
+        this.baseY - Math.abs(Math.sin(phase)) * (definition.bounceHeight ?? 0);
+    }
+
+    // Update animation - flying obstacles flap faster
+    const frameTime = definition.behavior === "flying" ? 100 : 200;
     this.animationTimer += deltaTime;
-    if (this.animationTimer > 200) {
+    if (this.animationTimer > frameTime) {
       this.animationFrame = (this.animationFrame + 1) % 2;
       this.animationTimer = 0;
     }
@@ -42,13 +82,37 @@ export class Obstacle extends Entity {
     // Use GameBoy palette colors
     ctx.fillStyle = "#0f380f"; // Darkest green
 
-    if (this.obstacleType === "bug") {
-      this.renderBug(ctx);
-    } else {
-      this.renderErrorBlock(ctx);
+    switch (this.obstacleType) {
+      case "bug":
+        this.renderBug(ctx);
+        break;
+      case "segfault":
+        this.renderSegfault(ctx);
+        break;
+      case "memoryleak":
+        this.renderMemoryLeak(ctx);
+        break;
+      case "mergeconflict":
+        this.renderMergeConflict(ctx);
+        break;
+      default:
+        this.renderErrorBlock(ctx);
     }
   }
 
+  /**
+   * Get bounding box, shrunk for sprites that don't fill their box
+   */
+  public getBoundingBox(): BoundingBox {
+    const inset = this.getDefinition().hitboxInset ?? { x: 0, y: 0 };
+    return {
+      x: this.position.x + inset.x,
+      y: this.position.y + inset.y,
+      width: this.size.width - inset.x * 2,
+      height: this.size.height - inset.y * 2,
+    };
+  }
+
   /**
    * Render bug sprite
    */
@@ -142,6 +206,110 @@ export class Obstacle extends Entity {
     ctx.fillRect(x + 14, y + 4, 1, 6); // Right inner edge
   }
 
+  /**
+   * Render segfault sprite - a glitchy bat flapping at head height
+   */
+  private renderSegfault(ctx: CanvasRenderingContext2D): void {
+    const x = this.position.x;
+    const y = this.position.y;
+
+    // Body
+    ctx.fillStyle = "#0f380f"; // Darkest green
+    ctx.fillRect(x + 4, y + 3, 8, 6);
+    ctx.fillRect(x + 6, y + 9, 4, 2); // Tail
+
+    // Wings
+    ctx.fillStyle = "#306230"; // Dark green
+    if (this.animationFrame === 0) {
+      ctx.fillRect(x, y, 4, 3); // Left wing up
+      ctx.fillRect(x + 2, y + 2, 2, 2);
+      ctx.fillRect(x + 12, y, 4, 3); // Right wing up
+      ctx.fillRect(x + 12, y + 2, 2, 2);
+    } else {
+      ctx.fillRect(x, y + 7, 4, 3); // Left wing down
+      ctx.fillRect(x + 2, y + 6, 2, 2);
+      ctx.fillRect(x + 12, y + 7, 4, 3); // Right wing down
+      ctx.fillRect(x + 12, y + 6, 2, 2);
+    }
+
+    // Glitching eyes
+    ctx.fillStyle = "#9bbc0f"; // Lightest green
+    ctx.fillRect(x + 5, y + 4, 2, 2);
+    ctx.fillRect(x + 9, y + 4, 2, 2);
+    ctx.fillStyle = "#8bac0f"; // Light green
+    ctx.fillRect(x + 6, y + 7, 4, 1); // Mouth
+  }
+
+  /**
+   * Render memory leak sprite - a dripping blob
+   */
+  private renderMemoryLeak(ctx: CanvasRenderingContext2D): void {
+    const x = this.position.x;
+    const y = this.position.y;
+
+    // Droplet body
+    ctx.fillStyle = "#0f380f"; // Darkest green
+    ctx.fillRect(x + 5, y, 4, 2);
+    ctx.fillRect(x + 3, y + 2, 8, 2);
+    ctx.fillRect(x + 1, y + 4, 12, 8);
+    ctx.fillRect(x + 3, y + 12, 8, 2);
+
+    // Shine
+    ctx.fillStyle = "#8bac0f"; // Light green
+    ctx.fillRect(x + 3, y + 5, 2, 3);
+
+    // Eyes
+    ctx.fillStyle = "#9bbc0f"; // Lightest green
+    ctx.fillRect(x + 6, y + 6, 2, 2);
+    ctx.fillRect(x + 9, y + 6, 2, 2);
+
+    // Leaking drips
+    ctx.fillStyle = "#306230"; // Dark green
+    if (this.animationFrame === 0) {
+      ctx.fillRect(x + 4, y + 13, 1, 1);
+      ctx.fillRect(x + 9, y + 13, 1, 1);
+    } else {
+      ctx.fillRect(x + 6, y + 13, 1, 1);
+      ctx.fillRect(x + 10, y + 12, 1, 1);
+    }
+  }
+
+  /**
+   * Render merge conflict sprite - a tall wall of conflict markers
+   */
+  private renderMergeConflict(ctx: CanvasRenderingContext2D): void {
+    const x = this.position.x;
+    const y = this.position.y;
+    const { width, height } = this.size;
+
+    // Wall
+    ctx.fillStyle = "#0f380f"; // Darkest green
+    ctx.fillRect(x, y, width, height);
+
+    // Ours / theirs panels
+    ctx.fillStyle = "#306230"; // Dark green
+    ctx.fillRect(x + 2, y + 4, width - 4, 12);
+    ctx.fillRect(x + 2, y + 24, width - 4, 12);
+
+    // Conflict markers: <<<<<<< ======= >>>>>>>
+    ctx.fillStyle = "#9bbc0f"; // Lightest green
+    for (let i = 0; i < 3; i++) {
+      ctx.fillRect(x + 3 + i * 4, y + 1, 2, 1); // <<<
+      ctx.fillRect(x + 3 + i * 4, y + 37, 2, 1); // >>>
+    }
+    if (this.animationFrame === 0) {
+      ctx.fillRect(x + 2, y + 19, width - 4, 1); // =======
+      ctx.fillRect(x + 2, y + 21, width - 4, 1);
+    }
+
+    // Diff lines
+    ctx.fillStyle = "#8bac0f"; // Light green
+    ctx.fillRect(x + 4, y + 7, 8, 1);
+    ctx.fillRect(x + 4, y + 11, 6, 1);
+    ctx.fillRect(x + 4, y + 27, 9, 1);
+    ctx.fillRect(x + 4, y + 31, 5, 1);
+  }
+
   /**
    * Reset obstacle to initial state
    */
@@ -149,6 +317,9 @@ export class Obstacle extends Entity {
     super.reset();
     this.animationFrame = 0;
     this.animationTimer = 0;
+    this.behaviorTimer = 0;
+    this.closestGap = Infinity;
+    this.passed = false;
   }
 
   /**
@@ -157,6 +328,10 @@ export class Obstacle extends Entity {
   public setSpawnPosition(x: number, y: number): void {
     this.position.x = x;
     this.position.y = y;
+    this.baseY = y;
+    this.behaviorTimer = 0;
+    this.closestGap = Infinity;
+    this.passed = false;
     this.active = true;
   }
 
@@ -164,6 +339,6 @@ export class Obstacle extends Entity {
    * Get obstacle difficulty score
    */
   public getDifficulty(): number {
-    return this.obstacleType === "bug" ? 1 : 2;
+    return this.getDefinition().difficulty;
   }
 }
@@ -3,12 +3,31 @@
  */
 
 import { Entity } from "./Entity";
-import type { PlayerConfig, BoundingBox } from "../types/GameTypes";
+import type {
+  PlayerConfig,
+  BoundingBox,
+  PlayerPalette,
+} from "../types/GameTypes";
+
+// GameBoy palette colors
+const DEFAULT_PALETTE: PlayerPalette = {
+  body: "#0f380f", // Darkest green
+  eyes: "#9bbc0f", // Lightest green
+};
 
 export class Player extends Entity {
   public jumpPower: number;
   public groundY: number;
+  public gravity: number;
+  public duckHeight: number;
+  public fastFallMultiplier: number;
+  public minJumpPower: number;
+  public jumpBufferTime: number;
   public isJumping: boolean = false;
+  public isDucking: boolean = false;
+  private duckHeld: boolean = false;
+  private jumpHeld: boolean = false;
+  private jumpBuffer: number = 0;
   public animationFrame: number = 0;
   public animationTimer: number = 0;
 
@@ -16,6 +35,11 @@ export class Player extends Entity {
     super(config, "player");
     this.jumpPower = config.jumpPower;
     this.groundY = config.groundY;
+    this.gravity = config.gravity ?? 0.8;
+    this.duckHeight = config.duckHeight ?? Math.round(this.size.height / 2);
+    this.fastFallMultiplier = config.fastFallMultiplier ?? 2.5;
+    this.minJumpPower = config.minJumpPower ?? this.jumpPower / 2;
+    this.jumpBufferTime = config.jumpBufferTime ?? 100;
     // Player position should already be set correctly (feet at groundY)
     // Don't override it here
   }
@@ -24,8 +48,11 @@ export class Player extends Entity {
    * Update player physics and animation
    */
   public update(deltaTime: number, _gameSpeed: number): void {
-    // Apply gravity
-    this.velocity.y += 0.8; // Gravity constant
+    // Apply gravity - holding down while airborne pulls the player down faster
+    const fastFall = this.duckHeld && this.isJumping;
+    this.velocity.y += fastFall
+      ? this.gravity * this.fastFallMultiplier
+      : this.gravity;
     this.position.y += this.velocity.y;
 
     // Ground collision - player's feet should not go below ground line
@@ -35,6 +62,11 @@ export class Player extends Entity {
       this.isJumping = false;
     }
 
+    this.jumpBuffer = Math.max(0, this.jumpBuffer - deltaTime);
+
+    // Ducking only takes effect on the ground; in the air it fast-falls
+    this.isDucking = this.duckHeld && !this.isJumping;
+
     // Update animation
     this.animationTimer += deltaTime;
     if (this.animationTimer > 100) {
@@ -46,9 +78,16 @@ export class Player extends Entity {
   /**
    * Render player as pixel art character
    */
-  public render(ctx: CanvasRenderingContext2D): void {
-    // Use GameBoy palette colors
-    ctx.fillStyle = "#0f380f"; // Darkest green
+  public render(
+    ctx: CanvasRenderingContext2D,
+    palette: PlayerPalette = DEFAULT_PALETTE,
+  ): void {
+    if (this.isDucking) {
+      this.renderDucking(ctx, palette);
+      return;
+    }
+
+    ctx.fillStyle = palette.body;
 
     // Body (16x8 rectangle)
     ctx.fillRect(this.position.x + 4, this.position.y + 8, 12, 8);
@@ -75,18 +114,50 @@ export class Player extends Entity {
     }
 
     // Eyes (2x1 pixels)
-    ctx.fillStyle = "#9bbc0f"; // Lightest green
+    ctx.fillStyle = palette.eyes;
     ctx.fillRect(this.position.x + 7, this.position.y + 4, 2, 1);
     ctx.fillRect(this.position.x + 11, this.position.y + 4, 2, 1);
   }
 
+  /**
+   * Render the flattened slide pose, sitting in the bottom of the sprite
+   */
+  private renderDucking(
+    ctx: CanvasRenderingContext2D,
+    palette: PlayerPalette,
+  ): void {
+    const top = this.position.y + this.size.height - this.duckHeight;
+    ctx.fillStyle = palette.body;
+
+    // Body stretched forward (16x5)
+    ctx.fillRect(this.position.x + 2, top + 2, 14, 5);
+
+    // Head tucked in at the front (6x5)
+    ctx.fillRect(this.position.x + 12, top, 6, 5);
+
+    // Legs trailing behind with sliding animation
+    if (this.animationFrame === 0) {
+      ctx.fillRect(this.position.x + 2, top + 7, 4, 3);
+      ctx.fillRect(this.position.x + 9, top + 7, 4, 3);
+    } else {
+      ctx.fillRect(this.position.x + 1, top + 7, 4, 3);
+      ctx.fillRect(this.position.x + 10, top + 7, 4, 3);
+    }
+
+    // Eye (2x1 pixels)
+    ctx.fillStyle = palette.eyes;
+    ctx.fillRect(this.position.x + 15, top + 1, 2, 1);
+  }
+
   /**
    * Make the player jump
    */
   public jump(): void {
-    if (!this.isJumping) {
+    if (this.canJump()) {
       this.velocity.y = this.jumpPower;
       this.isJumping = true;
+      this.isDucking = false;
+      this.jumpBuffer = 0;
     }
   }
 
@@ -97,6 +168,53 @@ export class Player extends Entity {
     return !this.isJumping;
   }
 
+  /**
+   * Feed the jump button state for this step. A press is buffered until the
+   * player can jump, and releasing early while rising cuts the jump short.
+   * Returns true when a jump starts.
+   */
+  public setJumpInput(held: boolean): boolean {
+    const pressed = held && !this.jumpHeld;
+    const released = !held && this.jumpHeld;
+    this.jumpHeld = held;
+
+    if (pressed) {
+      this.jumpBuffer = this.jumpBufferTime;
+    }
+
+    let jumped = false;
+    if ((pressed || this.jumpBuffer > 0) && this.canJump()) {
+      this.jump();
+      jumped = true;
+    }
+
+    // A buffered press that was already let go fires as a short hop
+    if ((released || (jumped && !held)) && this.isRising()) {
+      this.velocity.y = Math.max(this.velocity.y, this.minJumpPower);
+    }
+
+    return jumped;
+  }
+
+  /**
+   * Check if the player is still moving up from a jump
+   */
+  private isRising(): boolean {
+    return this.isJumping && this.velocity.y < 0;
+  }
+
+  /**
+   * Hold or release duck - slides on the ground, fast-falls in the air
+   */
+  public duck(active: boolean): void {
+    this.duckHeld = active;
+    if (!active) {
+      this.isDucking = false;
+    } else if (!this.isJumping) {
+      this.isDucking = true;
+    }
+  }
+
   /**
    * Move player horizontally
    */
@@ -120,6 +238,10 @@ export class Player extends Entity {
     // Position should already be at correct ground level
     this.velocity = { x: 0, y: 0 };
     this.isJumping = false;
+    this.isDucking = false;
+    this.duckHeld = false;
+    this.jumpHeld = false;
+    this.jumpBuffer = 0;
     this.animationFrame = 0;
     this.animationTimer = 0;
   }
@@ -129,6 +251,16 @@ export class Player extends Entity {
    * Aligns collision box with visual sprite (feet at bottom)
    */
   public getBoundingBox(): BoundingBox {
+    if (this.isDucking) {
+      // Keep the feet on the ground and lower the top of the box
+      return {
+        x: this.position.x,
+        y: this.position.y + this.size.height - this.duckHeight,
+        width: this.size.width,
+        height: this.duckHeight,
+      };
+    }
+
     return {
       x: this.position.x,
       y: this.position.y, // Full height for accurate ground collision
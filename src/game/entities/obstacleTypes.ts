@@ -0,0 +1,82 @@
+/**
+ * Obstacle definitions - One entry per obstacle type
+ */
+
+import type { ObstacleDefinition, ObstacleType } from "../types/GameTypes";
+
+export const OBSTACLE_DEFINITIONS: Record<ObstacleType, ObstacleDefinition> = {
+  // GameBoy-style bug on the ground
+  bug: {
+    width: 16,
+    height: 20,
+    elevation: 0,
+    behavior: "static",
+    minLevel: 0,
+    difficulty: 1,
+  },
+  // Error monitor on the ground
+  error: {
+    width: 16,
+    height: 20,
+    elevation: 0,
+    behavior: "static",
+    minLevel: 0,
+    difficulty: 2,
+  },
+  // Flies at head height - duck under or jump well over it
+  segfault: {
+    width: 16,
+    height: 12,
+    elevation: 12,
+    behavior: "flying",
+    hitboxInset: { x: 1, y: 1 },
+    minLevel: 0.2,
+    difficulty: 2,
+  },
+  // Bounces along the ground - time the jump to its arc
+  memoryleak: {
+    width: 14,
+    height: 14,
+    elevation: 0,
+    behavior: "bouncing",
+    bounceHeight: 26,
+    bouncePeriod: 900,
+    hitboxInset: { x: 2, y: 2 },
+    minLevel: 0.35,
+    difficulty: 3,
+  },
+  // Tall wall that needs a full-height jump
+  mergeconflict: {
+    width: 18,
+    height: 40,
+    elevation: 0,
+    behavior: "static",
+    minLevel: 0.5,
+    difficulty: 3,
+  },
+};
+
+export const OBSTACLE_TYPES = Object.keys(
+  OBSTACLE_DEFINITIONS,
+) as ObstacleType[];
+
+/**
+ * Look up a definition, falling back to a bug for unknown types
+ */
+export function getObstacleDefinition(type: ObstacleType): ObstacleDefinition {
+  return OBSTACLE_DEFINITIONS[type] ?? OBSTACLE_DEFINITIONS.bug;
+}
+
+/**
+ * Highest point of the hitbox above the ground at any time - what a jump
+ * must clear to pass over the obstacle
+ */
+export function getClearanceHeight(definition: ObstacleDefinition): number {
+  const insetY = definition.hitboxInset?.y ?? 0;
+  return (
+    definition.elevation +
+    definition.height +
+    (definition.bounceHeight ?? 0) -
+    insetY
+  );
+}
@@ -0,0 +1,31 @@
+/**
+ * Power-up definitions - One entry per timed power-up collectible
+ */
+
+import type {
+  CollectibleType,
+  PowerUpDefinition,
+  PowerUpType,
+} from "../types/GameTypes";
+
+export const POWER_UP_DEFINITIONS: Record<PowerUpType, PowerUpDefinition> = {
+  // Test coverage - absorbs the next obstacle hit
+  shield: { label: "COVERAGE", duration: 10000, points: 5 },
+  // CI magnet - pulls nearby collectibles towards the player
+  magnet: { label: "CI MAGNET", duration: 8000, points: 5 },
+  // Debugger - slows the game down
+  slowmo: { label: "DEBUGGER", duration: 5000, points: 5 },
+  // Double points for everything collected
+  multiplier: { label: "2X POINTS", duration: 8000, points: 5 },
+};
+
+export const POWER_UP_TYPES = Object.keys(
+  POWER_UP_DEFINITIONS,
+) as PowerUpType[];
+
+/**
+ * Check if a collectible type is a power-up rather than plain points
+ */
+export function isPowerUp(type: CollectibleType): type is PowerUpType {
+  return type in POWER_UP_DEFINITIONS;
+}
@@ -3,3 +3,18 @@
  */
 
 export { GameEngine } from "./GameEngine";
+export { parseStages } from "./systems/StageSystem";
+export { TUTORIAL_STAGES } from "./stages/tutorial";
+export { LocalLeaderboardProvider } from "./leaderboard/LocalLeaderboardProvider";
+export { HttpLeaderboardProvider } from "./leaderboard/HttpLeaderboardProvider";
+export {
+  canShareFiles,
+  downloadScoreCard,
+  shareScoreCard,
+} from "./share/ScoreCard";
+export {
+  loadSettings,
+  DIFFICULTY_PRESETS,
+  DEFAULT_SETTINGS,
+} from "./settings/Settings";
+export { formatKeyCode, INPUT_ACTIONS } from "./settings/KeyBindings";
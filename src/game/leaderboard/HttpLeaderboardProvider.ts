@@ -0,0 +1,135 @@
+/**
+ * HTTP Leaderboard Provider - LeaderboardProvider backed by a JSON API
+ *
+ *   POST {baseUrl}/scores                     LeaderboardSubmission -> { accepted, rank }
+ *   GET  {baseUrl}/scores?limit=N             -> { entries }
+ *   GET  {baseUrl}/scores/{id}/around?radius=R -> { entries }
+ */
+
+import type {
+  LeaderboardSubmission,
+  LeaderboardSubmitResult,
+  RankedLeaderboardEntry,
+} from "../types/GameTypes";
+import type { LeaderboardProvider } from "./LeaderboardProvider";
+
+export interface HttpLeaderboardOptions {
+  baseUrl: string;
+  /** Abort requests that take longer than this (ms) */
+  timeout?: number;
+  fetch?: typeof fetch;
+}
+
+/**
+ * Response bodies are untrusted - only plain objects are read from
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function isRankedEntry(value: unknown): value is RankedLeaderboardEntry {
+  return (
+    isRecord(value) &&
+    typeof value.id === "string" &&
+    typeof value.initials === "string" &&
+    Number.isFinite(value.score) &&
+    typeof value.date === "string" &&
+    Number.isFinite(value.duration) &&
+    Number.isFinite(value.collectibles) &&
+    Number.isFinite(value.seed) &&
+    Number.isInteger(value.rank)
+  );
+}
+
+export class HttpLeaderboardProvider implements LeaderboardProvider {
+  public readonly name = "http";
+  private baseUrl: string;
+  private timeout: number;
+  private fetchImpl: typeof fetch;
+
+  constructor(options: HttpLeaderboardOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, "");
+    this.timeout = options.timeout ?? 5000;
+    this.fetchImpl = options.fetch ?? ((...args) => fetch(...args));
+  }
+
+  public async submit(
+    submission: LeaderboardSubmission,
+  ): Promise<LeaderboardSubmitResult> {
+    const body = await this.request("/scores", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(submission),
+    });
+
+    if (!isRecord(body) || typeof body.accepted !== "boolean") {
+      return { accepted: false, rank: -1 };
+    }
+    return {
+      accepted: body.accepted,
+      rank: Number.isInteger(body.rank) ? (body.rank as number) : -1,
+    };
+  }
+
+  public async getTop(limit: number): Promise<RankedLeaderboardEntry[]> {
+    const body = await this.request(
+      `/scores?limit=${encodeURIComponent(String(limit))}`,
+    );
+    return this.toEntries(body);
+  }
+
+  public async getAround(
+    entryId: string,
+    radius: number,
+  ): Promise<RankedLeaderboardEntry[]> {
+    const body = await this.request(
+      `/scores/${encodeURIComponent(entryId)}/around?radius=${encodeURIComponent(String(radius))}`,
+    );
+    return this.toEntries(body);
+  }
+
+  public getBaseUrl(): string {
+    return this.baseUrl;
+  }
+
+  /**
+   * Fetch JSON, resolving to null on network, HTTP or parse errors
+   */
+  private async request(
+    path: string,
+    init: RequestInit = {},
+  ): Promise<unknown> {
+    const controller =
+      typeof AbortController !== "undefined" ? new AbortController() : null;
+    const timer = controller
+      ? setTimeout(() => controller.abort(), this.timeout)
+      : null;
+
+    try {
+      const response = await this.fetchImpl(this.baseUrl + path, {
+        ...init,
+        signal: controller?.signal,
+      });
+      if (!response.ok) {
+        console.warn(
+          `HttpLeaderboardProvider: ${init.method || "GET"} ${path} failed with ${response.status}`,
+        );
+        return null;
+      }
+      return await response.json();
+    } catch (error) {
+      console.warn(
+        `HttpLeaderboardProvider: Request to ${path} failed:`,
+        error,
+      );
+      return null;
+    } finally {
+      if (timer) clearTimeout(timer);
+    }
+  }
+
+  private toEntries(body: unknown): RankedLeaderboardEntry[] {
+    if (!isRecord(body) || !Array.isArray(body.entries)) return [];
+    return body.entries.filter(isRankedEntry);
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * Leaderboard Provider - Backend-agnostic interface for submitting and
+ * fetching scores. Implementations never reject; failures resolve to empty
+ * results so the game keeps working offline.
+ */
+
+import type {
+  LeaderboardSubmission,
+  LeaderboardSubmitResult,
+  RankedLeaderboardEntry,
+} from "../types/GameTypes";
+
+export interface LeaderboardProvider {
+  /** Short identifier, e.g. "local" or "http" */
+  readonly name: string;
+
+  /**
+   * Submit a finished run with its replay
+   */
+  submit(submission: LeaderboardSubmission): Promise<LeaderboardSubmitResult>;
+
+  /**
+   * Best entries first
+   */
+  getTop(limit: number): Promise<RankedLeaderboardEntry[]>;
+
+  /**
+   * Entries ranked within `radius` places of the given entry (inclusive).
+   * Empty if the entry isn't on the board.
+   */
+  getAround(entryId: string, radius: number): Promise<RankedLeaderboardEntry[]>;
+}
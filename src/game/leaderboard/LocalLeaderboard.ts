@@ -0,0 +1,191 @@
+/**
+ * Local Leaderboard - Top-N runs persisted in localStorage
+ */
+
+import type { LeaderboardEntry } from "../types/GameTypes";
+import {
+  loadVersioned,
+  readStored,
+  removeStored,
+  saveVersioned,
+} from "../utils/Storage";
+
+export const LEADERBOARD_VERSION = 1;
+export const LEADERBOARD_KEY = "miniGameLeaderboard";
+/** Pre-leaderboard high score, a bare integer string */
+export const LEGACY_HIGH_SCORE_KEY = "miniGameHighScore";
+export const DEFAULT_INITIALS = "???";
+
+export interface LocalLeaderboardOptions {
+  storageKey?: string;
+  legacyKey?: string;
+  maxEntries?: number;
+}
+
+interface LeaderboardRecord {
+  entries: LeaderboardEntry[];
+}
+
+/**
+ * Uppercase letters/digits only, at most three characters
+ */
+export function normalizeInitials(initials: string): string {
+  const cleaned = String(initials || "")
+    .toUpperCase()
+    .replace(/[^A-Z0-9]/g, "")
+    .slice(0, 3);
+  return cleaned || DEFAULT_INITIALS;
+}
+
+/**
+ * Highest score first; earlier runs win ties
+ */
+function compareEntries(a: LeaderboardEntry, b: LeaderboardEntry): number {
+  return b.score - a.score || a.date.localeCompare(b.date);
+}
+
+function isEntry(value: any): value is LeaderboardEntry {
+  return (
+    !!value &&
+    typeof value.id === "string" &&
+    typeof value.initials === "string" &&
+    Number.isFinite(value.score) &&
+    typeof value.date === "string" &&
+    Number.isFinite(value.duration) &&
+    Number.isFinite(value.collectibles) &&
+    Number.isFinite(value.seed)
+  );
+}
+
+export class LocalLeaderboard {
+  private storageKey: string;
+  private legacyKey: string;
+  private maxEntries: number;
+
+  constructor(options: LocalLeaderboardOptions = {}) {
+    this.storageKey = options.storageKey ?? LEADERBOARD_KEY;
+    this.legacyKey = options.legacyKey ?? LEGACY_HIGH_SCORE_KEY;
+    this.maxEntries = options.maxEntries ?? 10;
+  }
+
+  /**
+   * Entries sorted best first
+   */
+  public getEntries(): LeaderboardEntry[] {
+    return this.load();
+  }
+
+  public getTopScore(): number {
+    const [best] = this.load();
+    return best ? best.score : 0;
+  }
+
+  public getMaxEntries(): number {
+    return this.maxEntries;
+  }
+
+  /**
+   * Check if a score would make it onto the board
+   */
+  public qualifies(score: number): boolean {
+    if (score <= 0) return false;
+    const entries = this.load();
+    return (
+      entries.length < this.maxEntries ||
+      score > entries[entries.length - 1].score
+    );
+  }
+
+  /**
+   * Add a run, or update it if an entry with the same id exists (its score
+   * never goes down). Returns the 0-based rank, or -1 if it didn't place.
+   */
+  public submit(entry: LeaderboardEntry): number {
+    const entries = this.load();
+    const existing = entries.find((e) => e.id === entry.id);
+
+    if (existing) {
+      Object.assign(existing, {
+        ...entry,
+        initials: existing.initials,
+        score: Math.max(existing.score, entry.score),
+      });
+    } else {
+      if (!this.qualifies(entry.score)) return -1;
+      entries.push({ ...entry, initials: normalizeInitials(entry.initials) });
+    }
+
+    entries.sort(compareEntries);
+    entries.splice(this.maxEntries);
+    this.save(entries);
+
+    return entries.findIndex((e) => e.id === entry.id);
+  }
+
+  /**
+   * Name an entry after the run, e.g. from the game over initials prompt
+   */
+  public setInitials(id: string, initials: string): boolean {
+    const entries = this.load();
+    const entry = entries.find((e) => e.id === id);
+    if (!entry) return false;
+
+    entry.initials = normalizeInitials(initials);
+    this.save(entries);
+    return true;
+  }
+
+  /**
+   * Remove every entry, including any legacy high score
+   */
+  public clear(): void {
+    removeStored(this.legacyKey);
+    this.save([]);
+  }
+
+  /**
+   * Read fresh from storage so other tabs and engines stay in sync
+   */
+  private load(): LeaderboardEntry[] {
+    const record = loadVersioned<LeaderboardRecord>(
+      this.storageKey,
+      LEADERBOARD_VERSION,
+    );
+    if (record && Array.isArray(record.entries)) {
+      return record.entries.filter(isEntry).sort(compareEntries);
+    }
+    return this.migrateLegacy();
+  }
+
+  /**
+   * Carry a pre-leaderboard high score over as an unnamed entry
+   */
+  private migrateLegacy(): LeaderboardEntry[] {
+    const legacy = parseInt(readStored(this.legacyKey) || "", 10);
+    if (!(legacy > 0)) return [];
+
+    // The legacy key only ever stored the score itself
+    const entries: LeaderboardEntry[] = [
+      {
+        id: "legacy",
+        initials: DEFAULT_INITIALS,
+        score: legacy,
+        date: new Date().toISOString(),
+        duration: 0,
+        collectibles: 0,
+        seed: 0,
+      },
+    ];
+    if (this.save(entries)) removeStored(this.legacyKey);
+
+    return entries;
+  }
+
+  private save(entries: LeaderboardEntry[]): boolean {
+    return saveVersioned<LeaderboardRecord>(
+      this.storageKey,
+      LEADERBOARD_VERSION,
+      { entries },
+    );
+  }
+}
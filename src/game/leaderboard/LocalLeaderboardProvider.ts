@@ -0,0 +1,60 @@
+/**
+ * Local Leaderboard Provider - LeaderboardProvider over the localStorage board
+ */
+
+import type {
+  LeaderboardSubmission,
+  LeaderboardSubmitResult,
+  RankedLeaderboardEntry,
+} from "../types/GameTypes";
+import type { LeaderboardProvider } from "./LeaderboardProvider";
+import { LocalLeaderboard } from "./LocalLeaderboard";
+
+export class LocalLeaderboardProvider implements LeaderboardProvider {
+  public readonly name = "local";
+  private board: LocalLeaderboard;
+
+  constructor(board: LocalLeaderboard = new LocalLeaderboard()) {
+    this.board = board;
+  }
+
+  public async submit(
+    submission: LeaderboardSubmission,
+  ): Promise<LeaderboardSubmitResult> {
+    const { entry } = submission;
+    const rank = this.board.submit(entry);
+
+    // Resubmitting a recorded run is how it gets named
+    if (rank >= 0 && entry.initials) {
+      this.board.setInitials(entry.id, entry.initials);
+    }
+
+    return { accepted: rank >= 0, rank };
+  }
+
+  public async getTop(limit: number): Promise<RankedLeaderboardEntry[]> {
+    return this.getRanked().slice(0, Math.max(0, limit));
+  }
+
+  public async getAround(
+    entryId: string,
+    radius: number,
+  ): Promise<RankedLeaderboardEntry[]> {
+    const ranked = this.getRanked();
+    const index = ranked.findIndex((entry) => entry.id === entryId);
+    if (index < 0) return [];
+
+    return ranked.slice(
+      Math.max(0, index - radius),
+      index + Math.max(0, radius) + 1,
+    );
+  }
+
+  public getBoard(): LocalLeaderboard {
+    return this.board;
+  }
+
+  private getRanked(): RankedLeaderboardEntry[] {
+    return this.board.getEntries().map((entry, rank) => ({ ...entry, rank }));
+  }
+}
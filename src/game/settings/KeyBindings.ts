@@ -0,0 +1,134 @@
+/**
+ * Key Bindings - Physical keys mapped to input actions
+ *
+ * Bindings use KeyboardEvent.code, so they follow key positions rather than
+ * the characters printed on them. Each action can have several keys; a key
+ * belongs to at most one action.
+ */
+
+import type { InputAction, KeyBindings } from "../types/GameTypes";
+import { loadVersioned, removeStored, saveVersioned } from "../utils/Storage";
+
+export const KEY_BINDINGS_VERSION = 1;
+export const KEY_BINDINGS_KEY = "miniGameKeyBindings";
+
+export const INPUT_ACTIONS: readonly InputAction[] = [
+  "left",
+  "right",
+  "up",
+  "down",
+  "space",
+  "pause",
+];
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  left: ["ArrowLeft", "KeyA"],
+  right: ["ArrowRight", "KeyD"],
+  up: ["ArrowUp", "KeyW"],
+  down: ["ArrowDown", "KeyS"],
+  space: ["Space", "KeyJ"],
+  pause: ["KeyP", "Escape"],
+};
+
+// Short labels for keys whose code doesn't read well on its own
+const KEY_LABELS: Record<string, string> = {
+  ArrowLeft: "←",
+  ArrowRight: "→",
+  ArrowUp: "↑",
+  ArrowDown: "↓",
+  Escape: "Esc",
+  Space: "Space",
+  Enter: "Enter",
+  ShiftLeft: "L Shift",
+  ShiftRight: "R Shift",
+  ControlLeft: "L Ctrl",
+  ControlRight: "R Ctrl",
+  AltLeft: "L Alt",
+  AltRight: "R Alt",
+};
+
+export function copyKeyBindings(bindings: KeyBindings): KeyBindings {
+  const copy = {} as KeyBindings;
+  for (const action of INPUT_ACTIONS) copy[action] = [...bindings[action]];
+  return copy;
+}
+
+/**
+ * Readable label for a key code (e.g. "KeyJ" -> "J", "Digit1" -> "1")
+ */
+export function formatKeyCode(code: string): string {
+  if (code in KEY_LABELS) return KEY_LABELS[code];
+  if (/^Key[A-Z]$/.test(code)) return code.slice(3);
+  if (/^Digit\d$/.test(code)) return code.slice(5);
+  if (code.startsWith("Numpad")) return `Num ${code.slice(6)}`;
+  return code;
+}
+
+/**
+ * Action a key is bound to, or null if it is free
+ */
+export function findKeyAction(
+  bindings: KeyBindings,
+  code: string,
+): InputAction | null {
+  for (const action of INPUT_ACTIONS) {
+    if (bindings[action].includes(code)) return action;
+  }
+  return null;
+}
+
+/**
+ * Keep valid bindings from untrusted data. A key claimed by an earlier action
+ * is dropped, and actions left without keys get whichever defaults are free.
+ */
+export function sanitizeKeyBindings(value: unknown): KeyBindings {
+  const stored = (value && typeof value === "object" ? value : {}) as Record<
+    string,
+    unknown
+  >;
+  const bindings = {} as KeyBindings;
+  const claimed = new Set<string>();
+
+  for (const action of INPUT_ACTIONS) {
+    const codes = Array.isArray(stored[action]) ? stored[action] : [];
+    bindings[action] = [];
+    for (const code of codes as unknown[]) {
+      if (typeof code !== "string" || code === "" || claimed.has(code)) {
+        continue;
+      }
+      bindings[action].push(code);
+      claimed.add(code);
+    }
+  }
+
+  for (const action of INPUT_ACTIONS) {
+    if (bindings[action].length > 0) continue;
+    bindings[action] = DEFAULT_KEY_BINDINGS[action].filter(
+      (code) => !claimed.has(code),
+    );
+    bindings[action].forEach((code) => claimed.add(code));
+  }
+  return bindings;
+}
+
+/**
+ * Load saved bindings, falling back to defaults
+ */
+export function loadKeyBindings(
+  storageKey: string = KEY_BINDINGS_KEY,
+): KeyBindings {
+  return sanitizeKeyBindings(
+    loadVersioned<KeyBindings>(storageKey, KEY_BINDINGS_VERSION),
+  );
+}
+
+export function saveKeyBindings(
+  bindings: KeyBindings,
+  storageKey: string = KEY_BINDINGS_KEY,
+): void {
+  saveVersioned(storageKey, KEY_BINDINGS_VERSION, bindings);
+}
+
+export function clearKeyBindings(storageKey: string = KEY_BINDINGS_KEY): void {
+  removeStored(storageKey);
+}
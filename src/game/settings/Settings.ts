@@ -0,0 +1,158 @@
+/**
+ * Settings - Player preferences persisted in localStorage
+ *
+ * Settings are applied on top of a GameEngineConfig when the engine is
+ * created (GameEngineConfig.settings) and can be changed live through
+ * GameEngine.updateSettings().
+ */
+
+import type {
+  DifficultyConfig,
+  DifficultyPreset,
+  GameEngineConfig,
+  GameSettings,
+  GameTuning,
+} from "../types/GameTypes";
+import { loadVersioned, removeStored, saveVersioned } from "../utils/Storage";
+
+export const SETTINGS_VERSION = 1;
+export const SETTINGS_KEY = "miniGameSettings";
+
+export const DIFFICULTY_PRESETS: Record<
+  DifficultyPreset,
+  { spawnRateScale: number; difficulty: Partial<DifficultyConfig> }
+> = {
+  easy: {
+    spawnRateScale: 0.75,
+    difficulty: { rampTime: 180000, rampDistance: 60000, maxGameSpeed: 9 },
+  },
+  normal: { spawnRateScale: 1, difficulty: {} },
+  hard: {
+    spawnRateScale: 1.25,
+    difficulty: { rampTime: 80000, rampDistance: 28000, maxGameSpeed: 14 },
+  },
+};
+
+export const DEFAULT_SETTINGS: GameSettings = {
+  volume: 0.3,
+  muted: false,
+  reducedMotion: false,
+  showHitboxes: false,
+  showFPS: false,
+  difficulty: "normal",
+};
+
+/**
+ * Defaults, following the OS reduced motion preference where available
+ */
+export function getDefaultSettings(): GameSettings {
+  const prefersReducedMotion =
+    typeof window !== "undefined" &&
+    typeof window.matchMedia === "function" &&
+    window.matchMedia("(prefers-reduced-motion: reduce)").matches;
+
+  return { ...DEFAULT_SETTINGS, reducedMotion: prefersReducedMotion };
+}
+
+/**
+ * Keep valid fields from untrusted data, defaults for anything else
+ */
+export function sanitizeSettings(
+  value: unknown,
+  defaults: GameSettings = getDefaultSettings(),
+): GameSettings {
+  const settings = { ...defaults };
+  if (!value || typeof value !== "object") return settings;
+
+  const stored = value as Record<string, unknown>;
+  if (typeof stored.volume === "number" && Number.isFinite(stored.volume)) {
+    settings.volume = Math.max(0, Math.min(1, stored.volume));
+  }
+  for (const key of [
+    "muted",
+    "reducedMotion",
+    "showHitboxes",
+    "showFPS",
+  ] as const) {
+    if (typeof stored[key] === "boolean") settings[key] = stored[key];
+  }
+  if (
+    typeof stored.difficulty === "string" &&
+    stored.difficulty in DIFFICULTY_PRESETS
+  ) {
+    settings.difficulty = stored.difficulty as DifficultyPreset;
+  }
+  return settings;
+}
+
+/**
+ * Load saved settings, falling back to defaults
+ */
+export function loadSettings(storageKey: string = SETTINGS_KEY): GameSettings {
+  return sanitizeSettings(
+    loadVersioned<GameSettings>(storageKey, SETTINGS_VERSION),
+  );
+}
+
+export function saveSettings(
+  settings: GameSettings,
+  storageKey: string = SETTINGS_KEY,
+): void {
+  saveVersioned(storageKey, SETTINGS_VERSION, settings);
+}
+
+export function clearSettings(storageKey: string = SETTINGS_KEY): void {
+  removeStored(storageKey);
+}
+
+/**
+ * Spawn rate and difficulty curve of a config under a difficulty preset
+ */
+export function getPresetTuning(
+  config: GameEngineConfig,
+  difficulty: DifficultyPreset,
+): GameTuning {
+  const preset = DIFFICULTY_PRESETS[difficulty];
+  return {
+    spawnRate: config.spawnRate * preset.spawnRateScale,
+    difficulty: { ...config.difficulty, ...preset.difficulty },
+  };
+}
+
+/**
+ * Engine config with settings applied - the input config is not changed
+ */
+export function applySettingsToConfig(
+  config: GameEngineConfig,
+  settings: GameSettings,
+): GameEngineConfig {
+  return {
+    ...config,
+    ...getPresetTuning(config, settings.difficulty),
+    audio: {
+      ...config.audio,
+      volume: settings.volume,
+      enabled: !settings.muted,
+    },
+    render: {
+      ...config.render,
+      showHitboxes: settings.showHitboxes,
+      showFPS: settings.showFPS,
+      reducedMotion: settings.reducedMotion,
+    },
+  };
+}
+
+/**
+ * Settings that describe a config as-is (for engines created without any)
+ */
+export function settingsFromConfig(config: GameEngineConfig): GameSettings {
+  return {
+    volume: config.audio.volume ?? DEFAULT_SETTINGS.volume,
+    muted: !config.audio.enabled,
+    reducedMotion: !!config.render.reducedMotion,
+    showHitboxes: !!config.render.showHitboxes,
+    showFPS: !!config.render.showFPS,
+    difficulty: "normal",
+  };
+}
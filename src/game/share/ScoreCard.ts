@@ -0,0 +1,212 @@
+/**
+ * Score Card - Shareable PNG of a finished run
+ *
+ * The card is drawn on an offscreen canvas in the GameBoy palette: the game
+ * canvas scaled up in a frame, with the score, date and mode underneath.
+ * Plain text is provided as well for places that don't take images.
+ */
+
+import type { GameMode } from "../types/GameTypes";
+import { formatDailyResult } from "../daily/DailyChallenge";
+
+export interface ScoreCardData {
+  score: number;
+  /** UTC date key (YYYY-MM-DD) the run was played on */
+  date: string;
+  mode: GameMode;
+}
+
+export type ShareResult = "shared" | "cancelled" | "unsupported";
+
+interface CardSource {
+  width: number;
+  height: number;
+}
+
+// Pixel-art scale of the screenshot and the frame around it
+const SCALE = 2;
+const PADDING = 16;
+const HEADER_HEIGHT = 36;
+const FOOTER_HEIGHT = 64;
+
+const PALETTE = {
+  darkest: "#0f380f",
+  dark: "#306230",
+  light: "#8bac0f",
+  lightest: "#9bbc0f",
+};
+
+const FONT = '"Press Start 2P", monospace';
+
+/**
+ * Copyable result text
+ */
+export function formatShareText(data: ScoreCardData): string {
+  if (data.mode === "daily") return formatDailyResult(data.date, data.score);
+  return `Code Runner ${data.date}: ${data.score} pts`;
+}
+
+/**
+ * Card dimensions for a game canvas of the given size
+ */
+export function getScoreCardSize(source: CardSource): CardSource {
+  return {
+    width: source.width * SCALE + PADDING * 2,
+    height: source.height * SCALE + HEADER_HEIGHT + FOOTER_HEIGHT,
+  };
+}
+
+/**
+ * Draw a score card onto a context sized with getScoreCardSize()
+ */
+export function renderScoreCard(
+  ctx: CanvasRenderingContext2D,
+  source: CanvasImageSource & CardSource,
+  data: ScoreCardData,
+): void {
+  const { width, height } = getScoreCardSize(source);
+  const shotWidth = source.width * SCALE;
+  const shotHeight = source.height * SCALE;
+
+  // Background and outer frame
+  ctx.fillStyle = PALETTE.darkest;
+  ctx.fillRect(0, 0, width, height);
+  ctx.strokeStyle = PALETTE.light;
+  ctx.lineWidth = 4;
+  ctx.strokeRect(4, 4, width - 8, height - 8);
+
+  ctx.fillStyle = PALETTE.lightest;
+  ctx.font = `12px ${FONT}`;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.fillText("CODE RUNNER", width / 2, HEADER_HEIGHT / 2 + 2);
+
+  // The screenshot stays pixelated when scaled up
+  ctx.imageSmoothingEnabled = false;
+  ctx.drawImage(source, PADDING, HEADER_HEIGHT, shotWidth, shotHeight);
+  ctx.strokeStyle = PALETTE.dark;
+  ctx.lineWidth = 2;
+  ctx.strokeRect(PADDING - 1, HEADER_HEIGHT - 1, shotWidth + 2, shotHeight + 2);
+
+  // Framed score, then date and mode
+  const footerTop = HEADER_HEIGHT + shotHeight;
+  ctx.fillStyle = PALETTE.lightest;
+  ctx.font = `16px ${FONT}`;
+  ctx.fillText(
+    `SCORE ${String(data.score).padStart(4, "0")}`,
+    width / 2,
+    footerTop + 24,
+  );
+
+  ctx.fillStyle = PALETTE.light;
+  ctx.font = `8px ${FONT}`;
+  ctx.fillText(
+    `${data.date} - ${data.mode.toUpperCase()}`,
+    width / 2,
+    footerTop + 46,
+  );
+}
+
+/**
+ * Render a score card on a new offscreen canvas - null without a DOM
+ */
+export function createScoreCard(
+  source: HTMLCanvasElement,
+  data: ScoreCardData,
+): HTMLCanvasElement | null {
+  if (typeof document === "undefined") {
+    console.warn("ScoreCard: Cannot create a score card without a DOM");
+    return null;
+  }
+
+  const card = document.createElement("canvas");
+  const size = getScoreCardSize(source);
+  card.width = size.width;
+  card.height = size.height;
+
+  const ctx = card.getContext("2d");
+  if (!ctx) {
+    console.warn("ScoreCard: 2D context unavailable");
+    return null;
+  }
+
+  renderScoreCard(ctx, source, data);
+  return card;
+}
+
+/**
+ * Encode a card as a PNG blob
+ */
+export function scoreCardToBlob(card: HTMLCanvasElement): Promise<Blob | null> {
+  return new Promise((resolve) => {
+    if (typeof card.toBlob !== "function") {
+      resolve(null);
+      return;
+    }
+    card.toBlob((blob) => resolve(blob), "image/png");
+  });
+}
+
+export function getScoreCardFilename(data: ScoreCardData): string {
+  return `code-runner-${data.mode}-${data.date}.png`;
+}
+
+/**
+ * Save a card as a PNG through a temporary download link
+ */
+export function downloadScoreCard(
+  card: HTMLCanvasElement,
+  data: ScoreCardData,
+): void {
+  if (typeof document === "undefined") return;
+
+  const link = document.createElement("a");
+  link.href = card.toDataURL("image/png");
+  link.download = getScoreCardFilename(data);
+  link.click();
+}
+
+/**
+ * Check if the Web Share API can share image files here
+ */
+export function canShareFiles(): boolean {
+  if (typeof navigator === "undefined" || typeof File === "undefined") {
+    return false;
+  }
+  if (typeof navigator.share !== "function") return false;
+  if (typeof navigator.canShare !== "function") return false;
+
+  const probe = new File([], "card.png", { type: "image/png" });
+  return navigator.canShare({ files: [probe] });
+}
+
+/**
+ * Share a card and its text through the Web Share API
+ */
+export async function shareScoreCard(
+  card: HTMLCanvasElement,
+  data: ScoreCardData,
+): Promise<ShareResult> {
+  if (!canShareFiles()) return "unsupported";
+
+  const blob = await scoreCardToBlob(card);
+  if (!blob) return "unsupported";
+
+  const file = new File([blob], getScoreCardFilename(data), {
+    type: "image/png",
+  });
+
+  try {
+    await navigator.share({
+      files: [file],
+      title: "Code Runner",
+      text: formatShareText(data),
+    });
+    return "shared";
+  } catch (error) {
+    // Closing the share sheet rejects with an AbortError
+    if ((error as Error)?.name === "AbortError") return "cancelled";
+    console.warn("ScoreCard: Share failed:", error);
+    return "unsupported";
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Tutorial Stages - Handcrafted opening levels for Code Runner
+ *
+ * Timings are in ms from the start of each stage. Offsets are in px beyond
+ * the right edge of the screen, so placements in the same wave can be
+ * spaced out. At speed 4 a jump covers roughly 100px of clear air.
+ */
+
+import type { StageDefinition } from "../types/GameTypes";
+
+export const TUTORIAL_STAGES: StageDefinition[] = [
+  {
+    id: "hello-world",
+    name: "Hello World",
+    gameSpeed: 3,
+    spawnRate: 0,
+    waves: [
+      {
+        at: 1000,
+        collectibles: [
+          { type: "commit", height: 40 },
+          { type: "commit", offsetX: 24, height: 40 },
+          { type: "commit", offsetX: 48, height: 40 },
+        ],
+      },
+      { at: 3000, obstacles: [{ type: "bug" }] },
+      {
+        at: 5000,
+        obstacles: [{ type: "error" }],
+        collectibles: [{ type: "star", height: 70 }],
+      },
+      { at: 7000, obstacles: [{ type: "bug" }, { type: "bug", offsetX: 120 }] },
+    ],
+  },
+  {
+    id: "code-review",
+    name: "Code Review",
+    gameSpeed: 4,
+    spawnRate: 0,
+    waves: [
+      { at: 500, obstacles: [{ type: "error" }] },
+      {
+        at: 2000,
+        obstacles: [{ type: "bug" }, { type: "bug", offsetX: 40 }],
+        collectibles: [{ type: "star", offsetX: 20, height: 80 }],
+      },
+      {
+        at: 4000,
+        obstacles: [{ type: "error" }, { type: "bug", offsetX: 140 }],
+      },
+      { at: 5500, gameSpeed: 5, obstacles: [{ type: "bug" }] },
+    ],
+  },
+];
@@ -0,0 +1,160 @@
+/**
+ * Stats Tracker - Lifetime player stats built from the engine's event stream
+ *
+ * Counts runs, play time, jumps, collectibles by type and deaths by obstacle
+ * type from `gamestart`, `jump`, `collect` and `gameover` events. Totals
+ * are saved in localStorage once per finished run.
+ */
+
+import type {
+  CollectibleType,
+  GameEvent,
+  LifetimeStats,
+  ObstacleType,
+  PlayerStats,
+} from "../types/GameTypes";
+import { RunTracker } from "../utils/RunTracker";
+import { loadVersioned, removeStored, saveVersioned } from "../utils/Storage";
+
+export const STATS_VERSION = 1;
+export const STATS_KEY = "miniGameStats";
+
+export interface StatsTrackerOptions {
+  storageKey?: string;
+  /** Keep stats in memory only (e.g. for simulations) */
+  persist?: boolean;
+}
+
+const NUMERIC_STATS = [
+  "runs",
+  "playTime",
+  "distance",
+  "jumps",
+  "bestRunTime",
+  "bestRunDistance",
+] as const;
+
+function emptyStats(): PlayerStats {
+  return {
+    runs: 0,
+    playTime: 0,
+    distance: 0,
+    jumps: 0,
+    collectibles: {},
+    deaths: {},
+    bestRunTime: 0,
+    bestRunDistance: 0,
+  };
+}
+
+function isCount(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0;
+}
+
+/**
+ * Keep non-negative counts from a stored by-type table
+ */
+function sanitizeCounts<K extends string>(
+  value: unknown,
+): Partial<Record<K, number>> {
+  const counts: Partial<Record<K, number>> = {};
+  if (!value || typeof value !== "object") return counts;
+
+  for (const [key, count] of Object.entries(value)) {
+    if (isCount(count)) counts[key as K] = count;
+  }
+  return counts;
+}
+
+function sanitizeStats(value: unknown): PlayerStats {
+  const stats = emptyStats();
+  if (!value || typeof value !== "object") return stats;
+
+  const stored = value as Record<string, unknown>;
+  for (const key of NUMERIC_STATS) {
+    if (isCount(stored[key])) stats[key] = stored[key] as number;
+  }
+  stats.collectibles = sanitizeCounts<CollectibleType>(stored.collectibles);
+  stats.deaths = sanitizeCounts<ObstacleType>(stored.deaths);
+  return stats;
+}
+
+export class StatsTracker extends RunTracker {
+  private storageKey: string;
+  private persist: boolean;
+  private stats: PlayerStats;
+
+  constructor(options: StatsTrackerOptions = {}) {
+    super(["jump", "collect"]);
+    this.storageKey = options.storageKey ?? STATS_KEY;
+    this.persist = options.persist ?? true;
+    this.stats = this.load();
+  }
+
+  /**
+   * Lifetime totals with per-run averages
+   */
+  public getStats(): LifetimeStats {
+    const { runs } = this.stats;
+    return {
+      ...this.stats,
+      collectibles: { ...this.stats.collectibles },
+      deaths: { ...this.stats.deaths },
+      averageRunTime: runs > 0 ? Math.round(this.stats.playTime / runs) : 0,
+      averageRunDistance: runs > 0 ? Math.round(this.stats.distance / runs) : 0,
+    };
+  }
+
+  /**
+   * Forget every stat
+   */
+  public clear(): void {
+    this.stats = emptyStats();
+    this.runActive = false;
+    if (this.persist) removeStored(this.storageKey);
+  }
+
+  /**
+   * Count one jump or collectible of the current run
+   */
+  protected handleRunEvent(type: GameEvent["type"], data: any): void {
+    if (type === "jump") {
+      this.stats.jumps++;
+    } else if (type === "collect" && typeof data.type === "string") {
+      const collected = data.type as CollectibleType;
+      this.stats.collectibles[collected] =
+        (this.stats.collectibles[collected] ?? 0) + 1;
+    }
+  }
+
+  protected finishRun(data: any): void {
+    const duration = Number(data.duration) || 0;
+    const distance = Number(data.distance) || 0;
+
+    this.stats.runs++;
+    this.stats.playTime += duration;
+    this.stats.distance += distance;
+    this.stats.bestRunTime = Math.max(this.stats.bestRunTime, duration);
+    this.stats.bestRunDistance = Math.max(this.stats.bestRunDistance, distance);
+
+    // Runs stopped without a hit have no cause
+    if (typeof data.cause === "string") {
+      const cause = data.cause as ObstacleType;
+      this.stats.deaths[cause] = (this.stats.deaths[cause] ?? 0) + 1;
+    }
+
+    this.save();
+  }
+
+  private load(): PlayerStats {
+    const stored = this.persist
+      ? loadVersioned<PlayerStats>(this.storageKey, STATS_VERSION)
+      : null;
+    return sanitizeStats(stored);
+  }
+
+  private save(): void {
+    if (!this.persist) return;
+    saveVersioned(this.storageKey, STATS_VERSION, this.stats);
+  }
+}
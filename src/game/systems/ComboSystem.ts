@@ -0,0 +1,102 @@
+/**
+ * Combo System - Chains collects and near misses into a score multiplier
+ *
+ * A chain keeps going while the player stays in the air since the last hit,
+ * or while hits come within the combo window. Landing after the window has
+ * run out ends it.
+ */
+
+export interface ComboOptions {
+  /** Milliseconds after a hit that the next one still extends the chain */
+  window?: number;
+  /** Chain length needed for each +1 on the multiplier */
+  hitsPerLevel?: number;
+  maxMultiplier?: number;
+  /** Vertical px between player and obstacle that still counts as a near miss */
+  nearMissDistance?: number;
+  /** Points for a near miss, before multipliers */
+  stylePoints?: number;
+}
+
+export interface ComboState {
+  /** Hits in the current chain (0 when there is none) */
+  count: number;
+  multiplier: number;
+}
+
+export class ComboSystem {
+  private window: number;
+  private hitsPerLevel: number;
+  private maxMultiplier: number;
+  private nearMissDistance: number;
+  private stylePoints: number;
+  private count: number = 0;
+  private sinceLastHit: number = 0;
+  private landedSinceHit: boolean = false;
+
+  constructor(options: ComboOptions = {}) {
+    this.window = options.window ?? 1500;
+    this.hitsPerLevel = Math.max(1, options.hitsPerLevel ?? 2);
+    this.maxMultiplier = options.maxMultiplier ?? 5;
+    this.nearMissDistance = options.nearMissDistance ?? 8;
+    this.stylePoints = options.stylePoints ?? 15;
+  }
+
+  /**
+   * Count a collect or near miss towards the chain
+   */
+  public hit(): ComboState {
+    this.count++;
+    this.sinceLastHit = 0;
+    this.landedSinceHit = false;
+    return this.getState();
+  }
+
+  /**
+   * Advance the combo timer - returns true on the step the chain breaks
+   */
+  public update(deltaTime: number, onGround: boolean): boolean {
+    if (this.count === 0) return false;
+
+    this.sinceLastHit += deltaTime;
+    if (onGround) this.landedSinceHit = true;
+
+    if (this.landedSinceHit && this.sinceLastHit > this.window) {
+      this.count = 0;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Current multiplier - the first hit of a chain scores at x1
+   */
+  public getMultiplier(): number {
+    if (this.count === 0) return 1;
+    return Math.min(
+      this.maxMultiplier,
+      1 + Math.floor((this.count - 1) / this.hitsPerLevel),
+    );
+  }
+
+  /**
+   * Check if an obstacle passed close enough to count as a near miss
+   */
+  public isNearMiss(closestGap: number): boolean {
+    return closestGap <= this.nearMissDistance;
+  }
+
+  public getStylePoints(): number {
+    return this.stylePoints;
+  }
+
+  public getState(): ComboState {
+    return { count: this.count, multiplier: this.getMultiplier() };
+  }
+
+  public reset(): void {
+    this.count = 0;
+    this.sinceLastHit = 0;
+    this.landedSinceHit = false;
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Difficulty System - Ramps speed, spawns and obstacle mix over time/distance
+ */
+
+import type {
+  DifficultyConfig,
+  DifficultyState,
+  ObstacleType,
+} from "../types/GameTypes";
+
+export const DEFAULT_DIFFICULTY: Omit<DifficultyConfig, "maxSpawnRate"> = {
+  rampTime: 120000, // Two minutes of play
+  rampDistance: 40000,
+  timeWeight: 0.5,
+  maxGameSpeed: 12,
+  // Newer obstacle types also wait for their minLevel before spawning
+  obstacleMix: {
+    start: { bug: 0.7, error: 0.3 },
+    end: {
+      bug: 0.3,
+      error: 0.25,
+      segfault: 0.15,
+      memoryleak: 0.15,
+      mergeconflict: 0.15,
+    },
+  },
+  minObstacleGap: { start: 120, end: 60 },
+};
+
+/**
+ * Linear interpolation between two values
+ */
+function lerp(start: number, end: number, t: number): number {
+  return start + (end - start) * t;
+}
+
+export class DifficultySystem {
+  private config: DifficultyConfig;
+  private baseGameSpeed: number;
+  private baseSpawnRate: number;
+
+  constructor(
+    base: { gameSpeed: number; spawnRate: number },
+    overrides: Partial<DifficultyConfig> = {},
+  ) {
+    this.baseGameSpeed = base.gameSpeed;
+    this.baseSpawnRate = base.spawnRate;
+    this.config = {
+      ...DEFAULT_DIFFICULTY,
+      maxSpawnRate: base.spawnRate * 2,
+      ...overrides,
+    };
+  }
+
+  /**
+   * Curve progress (0-1) for the given play time and distance
+   */
+  public getLevel(elapsedTime: number, distance: number): number {
+    const { rampTime, rampDistance, timeWeight } = this.config;
+    const timeProgress = rampTime > 0 ? elapsedTime / rampTime : 1;
+    const distanceProgress = rampDistance > 0 ? distance / rampDistance : 1;
+    const level =
+      timeWeight * timeProgress + (1 - timeWeight) * distanceProgress;
+
+    return Math.max(0, Math.min(1, level));
+  }
+
+  /**
+   * Evaluate every difficulty parameter for the given play time and distance
+   */
+  public evaluate(elapsedTime: number, distance: number): DifficultyState {
+    const level = this.getLevel(elapsedTime, distance);
+    const { obstacleMix, minObstacleGap } = this.config;
+
+    const obstacleWeights: Partial<Record<ObstacleType, number>> = {};
+    const types = new Set([
+      ...Object.keys(obstacleMix.start),
+      ...Object.keys(obstacleMix.end),
+    ]) as Set<ObstacleType>;
+    for (const type of types) {
+      obstacleWeights[type] = lerp(
+        obstacleMix.start[type] || 0,
+        obstacleMix.end[type] || 0,
+        level,
+      );
+    }
+
+    return {
+      level,
+      gameSpeed: lerp(this.baseGameSpeed, this.config.maxGameSpeed, level),
+      spawnRate: lerp(this.baseSpawnRate, this.config.maxSpawnRate, level),
+      obstacleWeights,
+      minObstacleGap: lerp(minObstacleGap.start, minObstacleGap.end, level),
+    };
+  }
+
+  public getConfig(): DifficultyConfig {
+    return this.config;
+  }
+}
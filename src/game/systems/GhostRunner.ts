@@ -0,0 +1,139 @@
+/**
+ * Ghost Runner - Replays the best recorded run as a ghost beside the live one
+ *
+ * The best run is kept as a replay (seed plus per-step input). When a new
+ * run starts on the same seed, a second Player is driven frame by frame from
+ * the recorded input. Player physics only depend on input, so the ghost
+ * retraces the best run exactly and disappears on the frame that run ended.
+ */
+
+import { Player } from "../entities/Player";
+import type { GameConfig, PlayerConfig, ReplayData } from "../types/GameTypes";
+import { ReplayPlayer } from "../utils/ReplayPlayer";
+import { isValidReplay } from "../utils/ReplayRecorder";
+import { loadVersioned, removeStored, saveVersioned } from "../utils/Storage";
+
+export const GHOST_VERSION = 1;
+export const GHOST_KEY = "miniGameGhost";
+
+export interface GhostRunnerOptions {
+  storageKey?: string;
+  /** Keep the best run in memory only (e.g. for simulations) */
+  persist?: boolean;
+}
+
+export class GhostRunner {
+  private storageKey: string;
+  private persist: boolean;
+  private best: ReplayData | null;
+  private ghost: Player | null = null;
+  private inputs: ReplayPlayer | null = null;
+
+  constructor(options: GhostRunnerOptions = {}) {
+    this.storageKey = options.storageKey ?? GHOST_KEY;
+    this.persist = options.persist ?? true;
+    this.best = this.load();
+  }
+
+  /**
+   * Keep a finished run if it beats the best one - returns true if it did
+   */
+  public record(replay: ReplayData): boolean {
+    if (replay.frames === 0) return false;
+    if (this.best && replay.score <= this.best.score) return false;
+
+    this.best = replay;
+    this.save();
+    return true;
+  }
+
+  /**
+   * Spawn the ghost for a new run - only runs on the best run's seed and
+   * gameplay config can be raced, anything else would diverge immediately
+   */
+  public start(seed: number, config: GameConfig, player: PlayerConfig): void {
+    this.stop();
+    if (!this.best || this.best.seed !== seed) return;
+
+    const inputs = new ReplayPlayer(this.best);
+    if (!inputs.isCompatible(config)) return;
+
+    this.inputs = inputs;
+    this.ghost = new Player({
+      ...player,
+      position: { ...player.position },
+      size: { ...player.size },
+    });
+  }
+
+  /**
+   * Advance the ghost by one fixed step with its recorded input
+   */
+  public update(deltaTime: number, gameSpeed: number): void {
+    if (!this.ghost || !this.inputs) return;
+
+    // The best run ended here
+    if (this.inputs.isFinished()) {
+      this.ghost.active = false;
+      return;
+    }
+
+    // Same order as GameEngine.handlePlayerInput
+    const input = this.inputs.next();
+    this.ghost.duck(input.down);
+    this.ghost.setJumpInput(input.space);
+    this.ghost.update(deltaTime, gameSpeed);
+  }
+
+  /**
+   * Drop the ghost of the current run
+   */
+  public stop(): void {
+    this.ghost = null;
+    this.inputs = null;
+  }
+
+  /**
+   * The ghost Player while it is still running, for rendering
+   */
+  public getGhost(): Player | null {
+    return this.ghost && this.ghost.active ? this.ghost : null;
+  }
+
+  public isRacing(): boolean {
+    return this.getGhost() !== null;
+  }
+
+  /**
+   * The best recorded run, if any
+   */
+  public getBest(): ReplayData | null {
+    return this.best;
+  }
+
+  /**
+   * Forget the best run
+   */
+  public clear(): void {
+    this.stop();
+    this.best = null;
+    if (this.persist) removeStored(this.storageKey);
+  }
+
+  private load(): ReplayData | null {
+    if (!this.persist) return null;
+
+    const stored = loadVersioned<ReplayData>(this.storageKey, GHOST_VERSION);
+    if (stored === null) return null;
+    if (!isValidReplay(stored)) {
+      console.warn("GhostRunner: Ignoring invalid stored run");
+      return null;
+    }
+    return stored;
+  }
+
+  private save(): void {
+    if (!this.persist || !this.best) return;
+    saveVersioned(this.storageKey, GHOST_VERSION, this.best);
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Null Render System - Drop-in renderer for headless runs without a canvas
+ */
+
+import { RenderSystem } from "./RenderSystem";
+import { Entity } from "../entities/Entity";
+import type { Player } from "../entities/Player";
+import type { RenderConfig } from "../types/GameTypes";
+
+/**
+ * Create a 2D context stand-in whose draw calls do nothing
+ */
+function createNullContext(): CanvasRenderingContext2D {
+  const noop = () => {};
+  return {
+    fillRect: noop,
+    clearRect: noop,
+    strokeRect: noop,
+    fillText: noop,
+    beginPath: noop,
+    moveTo: noop,
+    lineTo: noop,
+    stroke: noop,
+    save: noop,
+    restore: noop,
+    drawImage: noop,
+    imageSmoothingEnabled: false,
+    fillStyle: "",
+    strokeStyle: "",
+    lineWidth: 1,
+    font: "",
+    textAlign: "left",
+    textBaseline: "top",
+    globalAlpha: 1,
+  } as unknown as CanvasRenderingContext2D;
+}
+
+export class NullRenderSystem extends RenderSystem {
+  constructor(width: number, height: number, config: RenderConfig) {
+    // Double buffering would need a DOM canvas, so it is always off here
+    super(createNullContext(), width, height, {
+      ...config,
+      doubleBuffering: false,
+    });
+  }
+
+  /**
+   * Frames are never drawn in headless mode
+   */
+  public beginFrame(): void {}
+
+  public endFrame(): void {}
+
+  public renderEntity(_entity: Entity): void {}
+
+  public renderGhost(_ghost: Player): void {}
+}
@@ -156,6 +156,39 @@ export class PhysicsSystem {
     }
   }
 
+  /**
+   * Simulate a jump from the ground and return the height above the ground
+   * after each fixed step until landing (same integration as Player.update)
+   */
+  public getJumpArc(jumpPower: number): number[] {
+    const arc: number[] = [];
+    if (jumpPower >= 0 || this.gravity <= 0) return arc;
+
+    let velocity = jumpPower;
+    let height = 0;
+    do {
+      velocity += this.gravity;
+      height -= velocity;
+      arc.push(Math.max(0, height));
+    } while (height > 0 && arc.length < 1000);
+
+    return arc;
+  }
+
+  /**
+   * Get how many fixed steps a jump keeps the player in the air
+   */
+  public getAirTime(jumpPower: number): number {
+    return this.getJumpArc(jumpPower).length;
+  }
+
+  /**
+   * Get the gravity used for physics calculations
+   */
+  public getGravity(): number {
+    return this.gravity;
+  }
+
   /**
    * Calculate distance between two entities
    */
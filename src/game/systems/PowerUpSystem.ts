@@ -0,0 +1,121 @@
+/**
+ * Power-Up System - Tracks timed power-up effects and what they change
+ */
+
+import type { ActivePowerUp, PowerUpType } from "../types/GameTypes";
+import { POWER_UP_DEFINITIONS } from "../entities/powerUpTypes";
+
+export interface PowerUpOptions {
+  /** Points multiplier while "multiplier" is active */
+  scoreMultiplier?: number;
+  /** Game speed scale while "slowmo" is active */
+  slowMotionScale?: number;
+  /** Radius in px around the player that the magnet pulls from */
+  magnetRadius?: number;
+  /** Px per step the magnet moves collectibles */
+  magnetStrength?: number;
+}
+
+export class PowerUpSystem {
+  private active: Map<PowerUpType, ActivePowerUp> = new Map();
+  private scoreMultiplier: number;
+  private slowMotionScale: number;
+  private magnetRadius: number;
+  private magnetStrength: number;
+
+  constructor(options: PowerUpOptions = {}) {
+    this.scoreMultiplier = options.scoreMultiplier ?? 2;
+    this.slowMotionScale = options.slowMotionScale ?? 0.5;
+    this.magnetRadius = options.magnetRadius ?? 80;
+    this.magnetStrength = options.magnetStrength ?? 6;
+  }
+
+  /**
+   * Start a power-up, or restart its timer if it is already running
+   */
+  public activate(type: PowerUpType): ActivePowerUp {
+    const definition = POWER_UP_DEFINITIONS[type];
+    const powerUp: ActivePowerUp = {
+      type,
+      remaining: definition.duration,
+      duration: definition.duration,
+    };
+    this.active.set(type, powerUp);
+    return { ...powerUp };
+  }
+
+  /**
+   * Count down active timers - returns the power-ups that ran out this step
+   */
+  public update(deltaTime: number): PowerUpType[] {
+    const expired: PowerUpType[] = [];
+
+    for (const [type, powerUp] of this.active) {
+      powerUp.remaining -= deltaTime;
+      if (powerUp.remaining <= 0) {
+        this.active.delete(type);
+        expired.push(type);
+      }
+    }
+
+    return expired;
+  }
+
+  /**
+   * Check if a power-up is currently running
+   */
+  public isActive(type: PowerUpType): boolean {
+    return this.active.has(type);
+  }
+
+  /**
+   * Snapshot of running power-ups, in activation order (for the HUD)
+   */
+  public getActive(): ActivePowerUp[] {
+    return Array.from(this.active.values(), (powerUp) => ({ ...powerUp }));
+  }
+
+  /**
+   * Use up the shield to absorb a hit - returns false if there was none
+   */
+  public consumeShield(): boolean {
+    return this.active.delete("shield");
+  }
+
+  /**
+   * Factor applied to collected points
+   */
+  public getScoreMultiplier(): number {
+    return this.isActive("multiplier") ? this.scoreMultiplier : 1;
+  }
+
+  /**
+   * Factor applied to the scroll speed
+   */
+  public getSpeedScale(): number {
+    return this.isActive("slowmo") ? this.slowMotionScale : 1;
+  }
+
+  /**
+   * Lowest speed scale any power-up can cause - obstacles must stay
+   * clearable at it
+   */
+  public getSlowestSpeedScale(): number {
+    return Math.min(1, this.slowMotionScale);
+  }
+
+  public getMagnetRadius(): number {
+    return this.isActive("magnet") ? this.magnetRadius : 0;
+  }
+
+  public getMagnetStrength(): number {
+    return this.magnetStrength;
+  }
+
+  /**
+   * Drop every running power-up
+   */
+  public reset(): void {
+    this.active.clear();
+  }
+}
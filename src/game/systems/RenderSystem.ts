@@ -2,8 +2,20 @@
  * Render System - Handles all rendering operations
  */
 
-import type { Vector2D, RenderConfig } from "../types/GameTypes";
+import type {
+  Vector2D,
+  RenderConfig,
+  ActivePowerUp,
+  ScoreBreakdown,
+  PlayerPalette,
+} from "../types/GameTypes";
 import { Entity } from "../entities/Entity";
+import type { Player } from "../entities/Player";
+import { POWER_UP_DEFINITIONS } from "../entities/powerUpTypes";
+
+// Ghost runner drawn in the mid GameBoy shades, half see-through
+const GHOST_PALETTE: PlayerPalette = { body: "#306230", eyes: "#8bac0f" };
+const GHOST_ALPHA = 0.5;
 
 export class RenderSystem {
   private ctx: CanvasRenderingContext2D;
@@ -99,6 +111,17 @@ export class RenderSystem {
     }
   }
 
+  /**
+   * Change display options on the fly (hitboxes, FPS, reduced motion)
+   */
+  public setOptions(
+    options: Partial<
+      Pick<RenderConfig, "showFPS" | "showHitboxes" | "reducedMotion">
+    >,
+  ): void {
+    this.config = { ...this.config, ...options };
+  }
+
   /**
    * Render an entity
    */
@@ -114,6 +137,19 @@ export class RenderSystem {
     }
   }
 
+  /**
+   * Render the ghost of the best run in a dimmed palette shade
+   */
+  public renderGhost(ghost: Player): void {
+    if (!ghost.active) return;
+
+    const ctx = this.backBuffer || this.ctx;
+    ctx.save();
+    ctx.globalAlpha = GHOST_ALPHA;
+    ghost.render(ctx, GHOST_PALETTE);
+    ctx.restore();
+  }
+
   /**
    * Render multiple entities
    */
@@ -191,13 +227,58 @@ export class RenderSystem {
   }
 
   /**
-   * Draw score display
+   * Draw score display, with the combo multiplier while a chain is running
    */
-  public drawScore(score: number, x: number = 10, y: number = 25): void {
-    this.drawText(`SCORE: ${score.toString().padStart(4, "0")}`, x, y, {
+  public drawScore(
+    score: number,
+    multiplier: number = 1,
+    x: number = 10,
+    y: number = 25,
+  ): void {
+    const text = `SCORE: ${score.toString().padStart(4, "0")}`;
+    this.drawText(text, x, y, {
       color: "#0f380f",
       size: 16,
     });
+
+    if (multiplier > 1) {
+      // 16px pixel font is 16px per character
+      this.drawText(`x${multiplier}`, x + text.length * 16 + 8, y + 4, {
+        color: "#306230",
+        size: 12,
+      });
+    }
+  }
+
+  /**
+   * Draw a label and draining bar for each running power-up, under the score
+   */
+  public drawPowerUpTimers(
+    powerUps: ActivePowerUp[],
+    x: number = 10,
+    y: number = 48,
+  ): void {
+    const ctx = this.backBuffer || this.ctx;
+    const barWidth = 48;
+
+    powerUps.forEach((powerUp, index) => {
+      // Blink during the last two seconds
+      if (powerUp.remaining < 2000 && Math.floor(powerUp.remaining / 200) % 2)
+        return;
+
+      const rowY = y + index * 14;
+      const fraction = Math.max(0, powerUp.remaining / powerUp.duration);
+
+      this.drawText(POWER_UP_DEFINITIONS[powerUp.type].label, x, rowY, {
+        color: "#0f380f",
+        size: 8,
+      });
+
+      ctx.fillStyle = "#306230";
+      ctx.fillRect(x, rowY + 9, barWidth, 3);
+      ctx.fillStyle = "#0f380f";
+      ctx.fillRect(x, rowY + 9, Math.round(barWidth * fraction), 3);
+    });
   }
 
   /**
@@ -213,10 +294,23 @@ export class RenderSystem {
     });
   }
 
+  /**
+   * Draw a mode badge (e.g. DAILY) in the top-right corner
+   */
+  public drawModeBadge(label: string): void {
+    const ctx = this.backBuffer || this.ctx;
+    const width = label.length * 6 + 6;
+    const x = this.width - 10 - width;
+
+    ctx.fillStyle = "#0f380f";
+    ctx.fillRect(x, 24, width, 12);
+    this.drawText(label, x + 3, 27, { color: "#9bbc0f", size: 6 });
+  }
+
   /**
    * Draw game over overlay
    */
-  public drawGameOver(score: number): void {
+  public drawGameOver(score: number, breakdown?: ScoreBreakdown): void {
     const ctx = this.backBuffer || this.ctx;
 
     // Semi-transparent overlay
@@ -247,6 +341,21 @@ export class RenderSystem {
       },
     );
 
+    // Where the points came from
+    if (breakdown) {
+      const pad = (value: number) => value.toString().padStart(4, "0");
+      this.drawText(
+        `DST ${pad(breakdown.distance)} COL ${pad(breakdown.collectibles)} BON ${pad(breakdown.bonuses)}`,
+        this.width / 2,
+        this.height / 2 + 28,
+        {
+          color: "#8bac0f",
+          size: Math.max(5, instructionSize - 2),
+          align: "center",
+        },
+      );
+    }
+
     // Restart instruction - properly centered
     this.drawText("CLICK TO RESTART", this.width / 2, this.height / 2 + 40, {
       color: "#9bbc0f",
@@ -285,6 +394,8 @@ export class RenderSystem {
       size: number;
     }>,
   ): void {
+    if (this.config.reducedMotion) return;
+
     const ctx = this.backBuffer || this.ctx;
 
     for (const particle of particles) {
@@ -309,10 +420,11 @@ export class RenderSystem {
   public drawBackground(frameCount: number): void {
     const ctx = this.backBuffer || this.ctx;
 
-    // Simple parallax background
+    // Simple parallax background - clouds hold still with reduced motion
+    const scroll = this.config.reducedMotion ? 0 : frameCount;
     ctx.fillStyle = "#8bac0f";
     for (let i = 0; i < 5; i++) {
-      const x = ((frameCount * 0.5 + i * 100) % (this.width + 20)) - 20;
+      const x = ((scroll * 0.5 + i * 100) % (this.width + 20)) - 20;
       const y = 20 + i * 15;
 
       // Draw simple cloud shapes
@@ -353,6 +465,7 @@ export class RenderSystem {
    * Trigger a flash effect
    */
   public triggerFlash(color: string = "#ff0000", alpha: number = 0.8): void {
+    if (this.config.reducedMotion) return;
     this.flashColor = color;
     this.flashAlpha = alpha;
   }
@@ -0,0 +1,202 @@
+/**
+ * Spawn Planner - Keeps random obstacle spacing fair for the player's jump arc
+ *
+ * The player stands still while obstacles scroll towards them, so every
+ * distance here is "how far obstacles scroll" while the player is in a given
+ * part of the jump. Two neighbouring obstacles are fair when they are either
+ * close enough to clear in one jump or far enough apart to land and jump again.
+ */
+
+import type { PhysicsSystem } from "./PhysicsSystem";
+import type { SeededRandom } from "../utils/SeededRandom";
+
+export interface SpawnPlannerOptions {
+  jumpPower: number;
+  playerWidth: number;
+  /** Steps between landing and the next jump leaving the ground */
+  reactionFrames?: number;
+  /** Longest gap, measured in jump distances, before a spawn is forced */
+  maxGapJumps?: number;
+}
+
+export interface JumpProfile {
+  /** Steps spent in the air */
+  airFrames: number;
+  /** First and last step (1-based) with feet above the obstacle height */
+  clearStart: number;
+  clearEnd: number;
+  /** Distance scrolled while the player is above the obstacle height */
+  clearDistance: number;
+  /** Distance scrolled during the whole jump */
+  airDistance: number;
+}
+
+export interface GapRange {
+  /** Largest gap that can still be cleared together with its neighbour */
+  clusterMax: number;
+  /** Smallest gap that leaves room to land and jump again */
+  min: number;
+  /** Gap after which the next obstacle is forced to spawn */
+  max: number;
+}
+
+export interface ObstacleSize {
+  width: number;
+  /** Height a jump must clear */
+  height: number;
+}
+
+export interface PlannedObstacle extends ObstacleSize {
+  x: number;
+}
+
+export class SpawnPlanner {
+  private physics: PhysicsSystem;
+  private jumpPower: number;
+  private playerWidth: number;
+  private reactionFrames: number;
+  private maxGapJumps: number;
+  private arc: number[];
+
+  constructor(physics: PhysicsSystem, options: SpawnPlannerOptions) {
+    this.physics = physics;
+    this.jumpPower = options.jumpPower;
+    this.playerWidth = options.playerWidth;
+    this.reactionFrames = options.reactionFrames ?? 6;
+    this.maxGapJumps = options.maxGapJumps ?? 3;
+    this.arc = this.physics.getJumpArc(this.jumpPower);
+  }
+
+  /**
+   * Describe a jump over an obstacle of the given height at the given speed
+   */
+  public getJumpProfile(
+    gameSpeed: number,
+    obstacleHeight: number,
+  ): JumpProfile {
+    const airFrames = this.arc.length;
+    const clearStart = this.arc.findIndex((h) => h > obstacleHeight) + 1;
+    let clearEnd = 0;
+    for (let i = this.arc.length - 1; i >= 0; i--) {
+      if (this.arc[i] > obstacleHeight) {
+        clearEnd = i + 1;
+        break;
+      }
+    }
+
+    const clearFrames = clearStart > 0 ? clearEnd - clearStart + 1 : 0;
+    return {
+      airFrames,
+      clearStart,
+      clearEnd,
+      clearDistance: clearFrames * gameSpeed,
+      airDistance: airFrames * gameSpeed,
+    };
+  }
+
+  /**
+   * Check if a single obstacle (or tight cluster) can be jumped at all
+   */
+  public canClear(width: number, height: number, gameSpeed: number): boolean {
+    const profile = this.getJumpProfile(gameSpeed, height);
+    return width + this.playerWidth <= profile.clearDistance;
+  }
+
+  /**
+   * Fair gap limits before the next obstacle, given its size, at the given
+   * speed. minGap is the designer's floor from the difficulty curve; the
+   * physical limits are never relaxed below it. `previous` is the obstacle
+   * before the gap, which the last jump was timed against.
+   */
+  public getGapRange(
+    gameSpeed: number,
+    obstacleWidth: number,
+    obstacleHeight: number,
+    minGap: number = 0,
+    previous: ObstacleSize = { width: 0, height: 0 },
+  ): GapRange {
+    const profile = this.getJumpProfile(gameSpeed, obstacleHeight);
+    const previousProfile = this.getJumpProfile(gameSpeed, previous.height);
+
+    // Clearing both obstacles in one jump
+    const clusterMax =
+      profile.clearDistance - this.playerWidth - obstacleWidth * 2;
+
+    // Jumping each one separately. Even when the first jump leaves as late as
+    // possible, the next obstacle must still be in reach once the player lands,
+    // so obstacle fronts need a full jump (plus reaction time) between them -
+    // more when the next one is taller and needs an earlier jump.
+    const recoveryFrames =
+      profile.airFrames +
+      this.reactionFrames +
+      profile.clearStart -
+      Math.max(1, previousProfile.clearStart);
+    const safeGap = recoveryFrames * gameSpeed - previous.width;
+
+    const min = Math.max(minGap, safeGap);
+    return {
+      clusterMax,
+      min,
+      max: min + profile.airDistance * this.maxGapJumps,
+    };
+  }
+
+  /**
+   * Decide whether to spawn an obstacle given the gap to the newest one.
+   * Only rolls the spawn chance inside the fair range; forces a spawn past it.
+   */
+  public shouldSpawn(
+    rng: SeededRandom,
+    currentGap: number,
+    range: GapRange,
+    spawnRate: number,
+  ): boolean {
+    if (currentGap < range.min) return false;
+    if (currentGap >= range.max && spawnRate > 0) return true;
+    return rng.chance(spawnRate);
+  }
+
+  /**
+   * Check a whole obstacle sequence (sorted by x) against the jump arc
+   */
+  public isSequenceClearable(
+    obstacles: PlannedObstacle[],
+    gameSpeed: number,
+  ): boolean {
+    const sorted = [...obstacles].sort((a, b) => a.x - b.x);
+    let cluster: PlannedObstacle[] = [];
+
+    const clusterFits = () => {
+      if (cluster.length === 0) return true;
+      const first = cluster[0];
+      const last = cluster[cluster.length - 1];
+      const span = last.x + last.width - first.x;
+      const height = Math.max(...cluster.map((o) => o.height));
+      return this.canClear(span, height, gameSpeed);
+    };
+
+    for (const obstacle of sorted) {
+      const previous = cluster[cluster.length - 1];
+      if (previous) {
+        const gap = obstacle.x - (previous.x + previous.width);
+        const range = this.getGapRange(
+          gameSpeed,
+          obstacle.width,
+          obstacle.height,
+          0,
+          previous,
+        );
+
+        if (gap >= range.min) {
+          // Enough room to land in between - close the current cluster
+          if (!clusterFits()) return false;
+          cluster = [];
+        }
+        // Anything closer has to be cleared in the same jump as the cluster
+      }
+      cluster.push(obstacle);
+    }
+
+    return clusterFits();
+  }
+}
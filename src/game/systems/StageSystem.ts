@@ -0,0 +1,194 @@
+/**
+ * Stage System - Plays handcrafted, data-driven stages of timed waves
+ */
+
+import type {
+  StageDefinition,
+  StageWave,
+  StageObstaclePlacement,
+  StageCollectiblePlacement,
+} from "../types/GameTypes";
+
+export interface StageUpdate {
+  obstacles: StageObstaclePlacement[];
+  collectibles: StageCollectiblePlacement[];
+  /** New scroll speed requested this step, if any */
+  gameSpeed: number | null;
+  /** Stage that started this step, if any */
+  enteredStage: StageDefinition | null;
+  /** True on the step the final stage finishes */
+  completed: boolean;
+}
+
+// Gap left after the last wave when a stage has no explicit duration
+const DEFAULT_STAGE_TAIL_MS = 1000;
+
+/**
+ * Validate stage data (e.g. parsed JSON), dropping malformed stages
+ */
+export function parseStages(data: unknown): StageDefinition[] {
+  if (!Array.isArray(data)) {
+    console.warn("StageSystem: Stage data must be an array");
+    return [];
+  }
+
+  return data.filter((stage, index): stage is StageDefinition => {
+    const valid =
+      stage &&
+      typeof stage.id === "string" &&
+      typeof stage.name === "string" &&
+      Array.isArray(stage.waves) &&
+      stage.waves.every(
+        (wave: StageWave) =>
+          wave && typeof wave.at === "number" && wave.at >= 0,
+      );
+
+    if (!valid) {
+      console.warn(`StageSystem: Skipping invalid stage at index ${index}`);
+    }
+    return Boolean(valid);
+  });
+}
+
+export class StageSystem {
+  private stages: StageDefinition[];
+  private stageIndex: number = -1;
+  private stageTime: number = 0;
+  private waveIndex: number = 0;
+  private speedOverride: number | null = null;
+  private started: boolean = false;
+
+  constructor(stages: StageDefinition[] = []) {
+    // Sort waves once so update() can walk them in order
+    this.stages = stages.map((stage) => ({
+      ...stage,
+      waves: [...stage.waves].sort((a, b) => a.at - b.at),
+    }));
+  }
+
+  /**
+   * Rewind to the first stage
+   */
+  public reset(): void {
+    this.stageIndex = -1;
+    this.stageTime = 0;
+    this.waveIndex = 0;
+    this.speedOverride = null;
+    this.started = false;
+  }
+
+  /**
+   * Advance stage time and collect everything that should happen this step
+   */
+  public update(deltaTime: number): StageUpdate {
+    const result: StageUpdate = {
+      obstacles: [],
+      collectibles: [],
+      gameSpeed: null,
+      enteredStage: null,
+      completed: false,
+    };
+
+    if (this.stages.length === 0) return result;
+
+    if (!this.started) {
+      this.started = true;
+      this.enterStage(0, result);
+    }
+
+    const stage = this.getCurrentStage();
+    if (!stage) return result;
+
+    this.stageTime += deltaTime;
+
+    // Fire every wave that is due
+    while (
+      this.waveIndex < stage.waves.length &&
+      stage.waves[this.waveIndex].at <= this.stageTime
+    ) {
+      const wave = stage.waves[this.waveIndex];
+      result.obstacles.push(...(wave.obstacles || []));
+      result.collectibles.push(...(wave.collectibles || []));
+      if (wave.gameSpeed !== undefined) {
+        this.speedOverride = wave.gameSpeed;
+        result.gameSpeed = wave.gameSpeed;
+      }
+      this.waveIndex++;
+    }
+
+    // Move on once the stage has run its course
+    if (this.stageTime >= this.getStageDuration(stage)) {
+      const nextIndex = stage.next
+        ? this.stages.findIndex((s) => s.id === stage.next)
+        : this.stageIndex + 1;
+
+      if (nextIndex >= 0 && nextIndex < this.stages.length) {
+        this.enterStage(nextIndex, result);
+      } else {
+        this.stageIndex = this.stages.length;
+        this.speedOverride = null;
+        result.completed = true;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Switch to a stage and report it on the update
+   */
+  private enterStage(index: number, result: StageUpdate): void {
+    const stage = this.stages[index];
+    this.stageIndex = index;
+    this.stageTime = 0;
+    this.waveIndex = 0;
+    result.enteredStage = stage;
+
+    if (stage.gameSpeed !== undefined) {
+      this.speedOverride = stage.gameSpeed;
+      result.gameSpeed = stage.gameSpeed;
+    }
+  }
+
+  /**
+   * Get how long a stage lasts in ms
+   */
+  private getStageDuration(stage: StageDefinition): number {
+    if (stage.duration !== undefined) return stage.duration;
+    const lastWave = stage.waves[stage.waves.length - 1];
+    return (lastWave ? lastWave.at : 0) + DEFAULT_STAGE_TAIL_MS;
+  }
+
+  /**
+   * Get the stage being played, or null before the first / after the last
+   */
+  public getCurrentStage(): StageDefinition | null {
+    return this.stages[this.stageIndex] || null;
+  }
+
+  /**
+   * Random spawn rate to use right now
+   */
+  public getSpawnRate(fallback: number): number {
+    const stage = this.getCurrentStage();
+    return stage && stage.spawnRate !== undefined ? stage.spawnRate : fallback;
+  }
+
+  /**
+   * Scroll speed forced by the current stage, or null if it doesn't care
+   */
+  public getSpeedOverride(): number | null {
+    return this.getCurrentStage() ? this.speedOverride : null;
+  }
+
+  /**
+   * Check if a stage is currently being played
+   */
+  public isActive(): boolean {
+    return this.getCurrentStage() !== null;
+  }
+
+  public getStages(): StageDefinition[] {
+    return this.stages;
+  }
+}
@@ -2,12 +2,43 @@
  * Game Types - Core interfaces and types for the Code Runner game
  */
 
+/**
+ * Endless runs get a fresh seed each time; daily runs share the UTC day's seed
+ */
+export type GameMode = "endless" | "daily";
+
 export interface GameState {
   isRunning: boolean;
   isPaused: boolean;
   score: number;
   gameSpeed: number;
   frameCount: number;
+  seed: number;
+  mode: GameMode;
+  /** UTC date key (YYYY-MM-DD) of a daily run, null otherwise */
+  daily: string | null;
+  stage: string | null;
+  /** Milliseconds of play this run (fixed steps, excludes pauses) */
+  elapsedTime: number;
+  /** Distance scrolled this run in px */
+  distance: number;
+  /** Collectibles picked up this run */
+  collected: number;
+  /** Where this run's score came from */
+  scoreBreakdown: ScoreBreakdown;
+  difficulty: DifficultyState;
+}
+
+/**
+ * Score components - they add up to the score unless setScore() was used
+ */
+export interface ScoreBreakdown {
+  /** Points for distance scrolled */
+  distance: number;
+  /** Points from collectibles, after multipliers */
+  collectibles: number;
+  /** Near-miss style points and points added through addScore() */
+  bonuses: number;
 }
 
 export interface Vector2D {
@@ -35,6 +66,43 @@ export interface GameConfig {
   jumpPower: number;
   gameSpeed: number;
   spawnRate: number;
+  /** Handcrafted stages played in order before falling back to random spawns */
+  stages?: StageDefinition[];
+  /** Tuning for the time/distance difficulty curve */
+  difficulty?: Partial<DifficultyConfig>;
+  /** Share of random collectibles that are power-ups (defaults to 0.1) */
+  powerUpChance?: number;
+  /** Px scrolled per distance point (defaults to 25) */
+  distanceScoreInterval?: number;
+}
+
+export interface DifficultyConfig {
+  /** Play time in ms for the time component to reach full difficulty */
+  rampTime: number;
+  /** Distance in px for the distance component to reach full difficulty */
+  rampDistance: number;
+  /** How much time counts vs distance (0 = distance only, 1 = time only) */
+  timeWeight: number;
+  /** Scroll speed at full difficulty (starts at GameConfig.gameSpeed) */
+  maxGameSpeed: number;
+  /** Spawn rate at full difficulty (starts at GameConfig.spawnRate) */
+  maxSpawnRate: number;
+  /** Relative obstacle type weights at the start and at full difficulty */
+  obstacleMix: {
+    start: Partial<Record<ObstacleType, number>>;
+    end: Partial<Record<ObstacleType, number>>;
+  };
+  /** Minimum px between randomly spawned obstacles */
+  minObstacleGap: { start: number; end: number };
+}
+
+export interface DifficultyState {
+  /** Curve progress from 0 (start) to 1 (full difficulty) */
+  level: number;
+  gameSpeed: number;
+  spawnRate: number;
+  obstacleWeights: Partial<Record<ObstacleType, number>>;
+  minObstacleGap: number;
 }
 
 export interface EntityConfig {
@@ -47,6 +115,24 @@ export interface EntityConfig {
 export interface PlayerConfig extends EntityConfig {
   jumpPower: number;
   groundY: number;
+  /** Downward acceleration per fixed step (defaults to 0.8) */
+  gravity?: number;
+  /** Hitbox height while ducking (defaults to half the player height) */
+  duckHeight?: number;
+  /** Gravity multiplier while ducking in the air (defaults to 2.5) */
+  fastFallMultiplier?: number;
+  /** Upward velocity kept when jump is released early (defaults to half of jumpPower) */
+  minJumpPower?: number;
+  /** How long a jump press is remembered before landing, in ms (defaults to 100) */
+  jumpBufferTime?: number;
+}
+
+/**
+ * Sprite colors for drawing a player (the ghost uses dimmed shades)
+ */
+export interface PlayerPalette {
+  body: string;
+  eyes: string;
 }
 
 export interface ObstacleConfig extends EntityConfig {
@@ -58,6 +144,43 @@ export interface CollectibleConfig extends EntityConfig {
   type: CollectibleType;
 }
 
+export interface StageObstaclePlacement {
+  type: ObstacleType;
+  /** Extra distance in px beyond the right edge of the screen */
+  offsetX?: number;
+}
+
+export interface StageCollectiblePlacement {
+  type: CollectibleType;
+  offsetX?: number;
+  /** Height of the collectible's top edge above the ground line */
+  height?: number;
+  points?: number;
+}
+
+export interface StageWave {
+  /** Milliseconds after the stage starts */
+  at: number;
+  obstacles?: StageObstaclePlacement[];
+  collectibles?: StageCollectiblePlacement[];
+  /** Change the scroll speed when this wave fires */
+  gameSpeed?: number;
+}
+
+export interface StageDefinition {
+  id: string;
+  name: string;
+  /** Stage length in ms - defaults to one second after the last wave */
+  duration?: number;
+  /** Scroll speed when the stage starts */
+  gameSpeed?: number;
+  /** Random spawn rate during the stage - 0 means handcrafted waves only */
+  spawnRate?: number;
+  waves: StageWave[];
+  /** Stage id to continue with - defaults to the next stage in the list */
+  next?: string;
+}
+
 export interface InputState {
   left: boolean;
   right: boolean;
@@ -67,6 +190,89 @@ export interface InputState {
   pause: boolean;
 }
 
+export type InputAction = keyof InputState;
+
+/**
+ * KeyboardEvent.code values bound to each action
+ */
+export type KeyBindings = Record<InputAction, string[]>;
+
+/**
+ * The parts of a Gamepad the input handler reads - real Gamepad objects fit,
+ * and so do plain stand-ins in tests
+ */
+export interface GamepadLike {
+  index: number;
+  id: string;
+  connected: boolean;
+  buttons: ReadonlyArray<{ pressed: boolean; value?: number }>;
+  axes: ReadonlyArray<number>;
+}
+
+/**
+ * Replacement for navigator.getGamepads()
+ */
+export type GamepadSource = () => ArrayLike<GamepadLike | null>;
+
+export interface GamepadInfo {
+  index: number;
+  id: string;
+}
+
+/**
+ * Outcome of binding a key: the action already holding it, if any
+ */
+export interface KeyBindingResult {
+  action: InputAction;
+  code: string;
+  bound: boolean;
+  conflict: InputAction | null;
+}
+
+export interface ReplayData {
+  version: number;
+  seed: number;
+  config: GameConfig;
+  frames: number;
+  /** Run-length encoded input bitmasks as [frameCount, mask] pairs */
+  inputs: Array<[number, number]>;
+  score: number;
+}
+
+export interface LeaderboardEntry {
+  id: string;
+  /** Up to three uppercase letters/digits */
+  initials: string;
+  score: number;
+  /** ISO timestamp of when the run ended */
+  date: string;
+  /** Milliseconds of play */
+  duration: number;
+  /** Collectibles picked up during the run */
+  collectibles: number;
+  seed: number;
+}
+
+export interface RankedLeaderboardEntry extends LeaderboardEntry {
+  /** 0-based position on the board */
+  rank: number;
+}
+
+/**
+ * A finished run sent to a leaderboard provider. The replay lets a server
+ * re-simulate the run from its seed and inputs before trusting the score.
+ */
+export interface LeaderboardSubmission {
+  entry: LeaderboardEntry;
+  replay: ReplayData | null;
+}
+
+export interface LeaderboardSubmitResult {
+  accepted: boolean;
+  /** 0-based rank, -1 if the run didn't place or was rejected */
+  rank: number;
+}
+
 export interface ParticleConfig {
   position: Vector2D;
   velocity: Vector2D;
@@ -76,8 +282,58 @@ export interface ParticleConfig {
 }
 
 export type EntityType = "player" | "obstacle" | "collectible" | "particle";
-export type ObstacleType = "bug" | "error";
-export type CollectibleType = "commit" | "star";
+export type ObstacleType =
+  | "bug"
+  | "error"
+  | "segfault"
+  | "memoryleak"
+  | "mergeconflict";
+
+export type ObstacleBehavior = "static" | "flying" | "bouncing";
+
+/**
+ * Per-type obstacle tuning - size, placement, movement and spawn rules
+ */
+export interface ObstacleDefinition {
+  width: number;
+  height: number;
+  /** Gap between the ground and the bottom of the sprite */
+  elevation: number;
+  behavior: ObstacleBehavior;
+  /** Peak height of a bouncing obstacle above its resting position */
+  bounceHeight?: number;
+  /** Milliseconds per bounce */
+  bouncePeriod?: number;
+  /** Hitbox shrink on each side, for sprites that don't fill their box */
+  hitboxInset?: Vector2D;
+  /** Difficulty level (0-1) before random spawns may pick this type */
+  minLevel: number;
+  /** Relative danger, e.g. for scoring */
+  difficulty: number;
+}
+
+export type PowerUpType = "shield" | "magnet" | "slowmo" | "multiplier";
+
+export type CollectibleType = "commit" | "star" | PowerUpType;
+
+/**
+ * Per-type power-up tuning
+ */
+export interface PowerUpDefinition {
+  /** Short name shown on the HUD timer */
+  label: string;
+  /** Milliseconds the effect lasts (collecting it again restarts the timer) */
+  duration: number;
+  /** Points for picking it up */
+  points: number;
+}
+
+export interface ActivePowerUp {
+  type: PowerUpType;
+  /** Milliseconds left */
+  remaining: number;
+  duration: number;
+}
 
 export interface GameEvent {
   type:
@@ -88,11 +344,27 @@ export interface GameEvent {
     | "spawn"
     | "gamestart"
     | "pause"
-    | "reset";
+    | "reset"
+    | "stage"
+    | "powerupstart"
+    | "powerupend"
+    | "combo"
+    | "achievement"
+    | "jump"
+    | "gamepadconnected"
+    | "gamepaddisconnected";
   data?: any;
   timestamp: number;
 }
 
+/**
+ * Anything that emits game events - the GameEngine in practice
+ */
+export interface GameEventSource {
+  addEventListener(type: string, listener: (event: GameEvent) => void): void;
+  removeEventListener(type: string, listener: (event: GameEvent) => void): void;
+}
+
 export interface AudioConfig {
   enabled: boolean;
   volume: number;
@@ -109,11 +381,101 @@ export interface RenderConfig {
   showFPS: boolean;
   showHitboxes: boolean;
   doubleBuffering: boolean;
+  /** Skip screen flashes, particles and background scrolling */
+  reducedMotion?: boolean;
+}
+
+export type DifficultyPreset = "easy" | "normal" | "hard";
+
+/**
+ * The parts of the gameplay config a difficulty preset changes
+ */
+export type GameTuning = Pick<GameConfig, "spawnRate" | "difficulty">;
+
+/**
+ * Player preferences, persisted and applied over the engine config
+ */
+export interface GameSettings {
+  /** Master volume 0-1 */
+  volume: number;
+  muted: boolean;
+  reducedMotion: boolean;
+  showHitboxes: boolean;
+  showFPS: boolean;
+  difficulty: DifficultyPreset;
 }
 
 export interface GameEngineConfig extends GameConfig {
   audio: AudioConfig;
   render: RenderConfig;
-  canvas: HTMLCanvasElement;
+  /** Optional in headless mode */
+  canvas?: HTMLCanvasElement;
+  /** Run without a canvas or rAF loop - advance with GameEngine.step() */
+  headless?: boolean;
+  /** Fixed RNG seed - omit for a fresh seed on every run */
+  seed?: number;
+  /** Player settings applied over this config at load */
+  settings?: GameSettings;
   onScoreChange?: (score: number) => void;
 }
+
+/**
+ * Stats achievements are measured against
+ */
+export type AchievementMetric =
+  | "collected"
+  | "commits"
+  | "stars"
+  | "powerUps"
+  | "score"
+  | "survivalTime"
+  | "distance"
+  | "runs";
+
+/**
+ * Declarative unlock rule - reach `target` on `metric`, either within a
+ * single run or summed over every run
+ */
+export interface AchievementDefinition {
+  id: string;
+  name: string;
+  description: string;
+  metric: AchievementMetric;
+  target: number;
+  scope: "run" | "total";
+}
+
+export interface AchievementProgress {
+  id: string;
+  name: string;
+  description: string;
+  /** Best single run or running total, capped at the target */
+  progress: number;
+  target: number;
+  unlocked: boolean;
+  /** ISO date of the unlock */
+  unlockedAt: string | null;
+}
+
+/**
+ * Lifetime totals kept across every run
+ */
+export interface PlayerStats {
+  runs: number;
+  /** Milliseconds played */
+  playTime: number;
+  /** Px scrolled */
+  distance: number;
+  jumps: number;
+  collectibles: Partial<Record<CollectibleType, number>>;
+  /** What ended each run - runs stopped without a hit aren't counted */
+  deaths: Partial<Record<ObstacleType, number>>;
+  /** Longest run in ms and px */
+  bestRunTime: number;
+  bestRunDistance: number;
+}
+
+export interface LifetimeStats extends PlayerStats {
+  averageRunTime: number;
+  averageRunDistance: number;
+}
@@ -0,0 +1,88 @@
+/**
+ * Gamepad - Reads physical controllers into InputState
+ *
+ * Buttons follow the W3C "standard" gamepad layout: the D-pad, A (jump),
+ * B (duck) and Start (pause). The left stick works like the D-pad once it
+ * leaves its deadzone.
+ */
+
+import type { GamepadLike, InputState } from "../types/GameTypes";
+
+export const GAMEPAD_BUTTONS = {
+  a: 0,
+  b: 1,
+  start: 9,
+  up: 12,
+  down: 13,
+  left: 14,
+  right: 15,
+} as const;
+
+export const DEFAULT_DEADZONE = 0.25;
+
+// Only warn once if the Gamepad API is blocked - it is polled every step
+let warnedUnavailable = false;
+
+// How far past the deadzone the stick has to go to count as a direction
+const STICK_THRESHOLD = 0.5;
+
+/**
+ * Scale an axis so the deadzone reads as 0 and the rest spans 0..1
+ */
+export function applyDeadzone(value: number, deadzone: number): number {
+  const magnitude = Math.abs(value);
+  if (!Number.isFinite(value) || magnitude <= deadzone) return 0;
+  return (
+    (Math.sign(value) * (Math.min(magnitude, 1) - deadzone)) / (1 - deadzone)
+  );
+}
+
+function isPressed(pad: GamepadLike, button: number): boolean {
+  return !!pad.buttons[button]?.pressed;
+}
+
+/**
+ * Input held on a gamepad - `pause` is whether Start is held
+ */
+export function readGamepad(
+  pad: GamepadLike,
+  deadzone: number = DEFAULT_DEADZONE,
+): InputState {
+  const x = applyDeadzone(pad.axes[0] ?? 0, deadzone);
+  const y = applyDeadzone(pad.axes[1] ?? 0, deadzone);
+
+  return {
+    left: isPressed(pad, GAMEPAD_BUTTONS.left) || x <= -STICK_THRESHOLD,
+    right: isPressed(pad, GAMEPAD_BUTTONS.right) || x >= STICK_THRESHOLD,
+    up: isPressed(pad, GAMEPAD_BUTTONS.up) || y <= -STICK_THRESHOLD,
+    down:
+      isPressed(pad, GAMEPAD_BUTTONS.down) ||
+      isPressed(pad, GAMEPAD_BUTTONS.b) ||
+      y >= STICK_THRESHOLD,
+    space: isPressed(pad, GAMEPAD_BUTTONS.a),
+    pause: isPressed(pad, GAMEPAD_BUTTONS.start),
+  };
+}
+
+/**
+ * Connected gamepads from the browser - empty without the Gamepad API
+ */
+export function getNavigatorGamepads(): ArrayLike<GamepadLike | null> {
+  if (
+    typeof navigator === "undefined" ||
+    typeof navigator.getGamepads !== "function"
+  ) {
+    return [];
+  }
+
+  try {
+    return navigator.getGamepads();
+  } catch (error) {
+    // Blocked by a permissions policy, for example
+    if (!warnedUnavailable) {
+      console.warn("Gamepad: Failed to read gamepads:", error);
+      warnedUnavailable = true;
+    }
+    return [];
+  }
+}
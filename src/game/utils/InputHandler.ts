@@ -1,32 +1,149 @@
 /**
  * Input Handler - Manages keyboard and touch input
+ *
+ * Keyboard input goes through a remappable binding table (see
+ * settings/KeyBindings) that is saved between visits. Gamepads are polled
+ * once per fixed step through pollGamepads(). With a focus scope set, keys
+ * and clicks only reach the game while the player is in it (see
+ * setFocusScope), so the rest of the page keeps its keyboard.
  */
 
-import type { InputState } from "../types/GameTypes";
+import type {
+  GamepadInfo,
+  GamepadSource,
+  InputAction,
+  InputState,
+  KeyBindingResult,
+  KeyBindings,
+} from "../types/GameTypes";
+import {
+  clearKeyBindings,
+  copyKeyBindings,
+  DEFAULT_KEY_BINDINGS,
+  findKeyAction,
+  KEY_BINDINGS_KEY,
+  loadKeyBindings,
+  sanitizeKeyBindings,
+  saveKeyBindings,
+} from "../settings/KeyBindings";
+import { DEFAULT_DEADZONE, getNavigatorGamepads, readGamepad } from "./Gamepad";
+
+function createInputState(): InputState {
+  return {
+    left: false,
+    right: false,
+    up: false,
+    down: false,
+    space: false,
+    pause: false,
+  };
+}
+
+export interface InputHandlerOptions {
+  /** Starting bindings - saved bindings are loaded when omitted */
+  bindings?: KeyBindings;
+  storageKey?: string;
+  /** Keep bindings in memory only (e.g. for simulations) */
+  persist?: boolean;
+  /** Where gamepads are read from - navigator.getGamepads() by default */
+  getGamepads?: GamepadSource;
+  /** Analog stick deadzone (0-1) */
+  gamepadDeadzone?: number;
+}
+
+// Gesture tuning, in CSS pixels and milliseconds
+const SWIPE_DISTANCE = 30;
+const TAP_SLOP = 10;
+const TAP_MAX_MS = 250;
+const TWO_FINGER_WINDOW_MS = 150;
+
+// Clicks on these are for the page's controls, not jumps
+const INTERACTIVE_SELECTOR =
+  "button, a, input, select, textarea, label, [role='button']";
+
+/**
+ * A finger on the screen, from touchstart to touchend
+ */
+interface TouchTrack {
+  /** Zone action held by this finger - cleared by gestures */
+  action: "left" | "right" | "space" | null;
+  startX: number;
+  startY: number;
+  startTime: number;
+  moved: boolean;
+  swiped: boolean;
+  ducking: boolean;
+}
+
+interface BindingCapture {
+  action: InputAction;
+  force: boolean;
+  resolve: (result: KeyBindingResult | null) => void;
+}
 
 export class InputHandler {
   private keys: InputState;
+  private bindings: KeyBindings;
+  private storageKey: string;
+  private persist: boolean;
+  private capture: BindingCapture | null = null;
+
+  // Gamepad input is kept apart from keyboard state and merged on read
+  private getGamepads: GamepadSource;
+  private gamepadDeadzone: number;
+  private gamepadKeys: InputState;
+  private gamepads: Map<number, { id: string; state: InputState }> = new Map();
+  private onGamepadCallback:
+    | ((gamepad: GamepadInfo, connected: boolean) => void)
+    | null = null;
   private callbacks: Map<string, (() => void)[]>;
   private isInitialized: boolean = false;
   private boundHandleKeyDown: (event: KeyboardEvent) => void;
   private boundHandleKeyUp: (event: KeyboardEvent) => void;
   private boundHandleMouseDown: (event: MouseEvent) => void;
   private boundHandleMouseUp: (event: MouseEvent) => void;
+  private boundHandleCaptureKey: (event: KeyboardEvent) => void;
+  private boundHandleScopeEvent: (event: Event) => void;
+
+  // Element the game's keyboard and mouse input is scoped to, if any
+  private focusScope: HTMLElement | null = null;
+  private scopeEngaged: boolean = false;
 
   // Element-level touch handler references
   private elementTouchHandlers: Map<
     HTMLElement,
     {
       boundTouchStart: (event: TouchEvent) => void;
+      boundTouchMove: (event: TouchEvent) => void;
       boundTouchEnd: (event: TouchEvent) => void;
       boundPointerDown: (event: PointerEvent) => void;
       boundPointerUp: (event: PointerEvent) => void;
     }
   > = new Map();
   private lastTriggerTime: Map<string, number> = new Map();
+  private jumpKeyHeld: boolean = false;
+
+  // Each finger is tracked by touch identifier and can hold its own action
+  private touches: Map<number, TouchTrack> = new Map();
+  private touchKeys: InputState = createInputState();
+  // On-screen pad buttons, so lifting one never releases a held key
+  private padKeys: InputState = createInputState();
+  // Fingers of a possible two-finger tap, and whether it still counts
+  private twoFingerTap: { ids: Set<number>; valid: boolean } | null = null;
   private readonly TRIGGER_DEBOUNCE_MS = 100;
 
-  constructor() {
+  constructor(options: InputHandlerOptions = {}) {
+    this.storageKey = options.storageKey ?? KEY_BINDINGS_KEY;
+    this.persist = options.persist ?? true;
+    this.bindings = options.bindings
+      ? sanitizeKeyBindings(options.bindings)
+      : this.persist
+        ? loadKeyBindings(this.storageKey)
+        : copyKeyBindings(DEFAULT_KEY_BINDINGS);
+    this.getGamepads = options.getGamepads ?? getNavigatorGamepads;
+    this.gamepadDeadzone = options.gamepadDeadzone ?? DEFAULT_DEADZONE;
+    this.gamepadKeys = createInputState();
+
     this.keys = {
       left: false,
       right: false,
@@ -42,6 +159,8 @@ export class InputHandler {
     this.boundHandleKeyUp = this.handleKeyUp.bind(this);
     this.boundHandleMouseDown = this.handleMouseDown.bind(this);
     this.boundHandleMouseUp = this.handleMouseUp.bind(this);
+    this.boundHandleCaptureKey = this.handleCaptureKey.bind(this);
+    this.boundHandleScopeEvent = this.handleScopeEvent.bind(this);
   }
 
   /**
@@ -68,6 +187,8 @@ export class InputHandler {
    * Cleanup input handlers
    */
   public destroy(): void {
+    this.cancelCapture();
+    this.setFocusScope(null);
     if (typeof window === "undefined") return;
 
     window.removeEventListener("keydown", this.boundHandleKeyDown);
@@ -87,119 +208,290 @@ export class InputHandler {
    * Handle keyboard key down
    */
   private handleKeyDown(event: KeyboardEvent): void {
-    switch (event.code) {
-      case "ArrowLeft":
-      case "KeyA":
-        this.keys.left = true;
-        event.preventDefault();
-        break;
-      case "ArrowRight":
-      case "KeyD":
-        this.keys.right = true;
-        event.preventDefault();
-        break;
-      case "ArrowUp":
-      case "KeyW":
-        this.keys.up = true;
-        event.preventDefault();
-        break;
-      case "ArrowDown":
-      case "KeyS":
-        this.keys.down = true;
-        event.preventDefault();
-        break;
-      case "Space":
-      case "KeyJ":
-        this.keys.space = true;
-        event.preventDefault();
-        this.triggerCallbacks("jump");
-        break;
-      case "KeyP":
-      case "Escape":
-        this.keys.pause = !this.keys.pause;
-        event.preventDefault();
-        this.triggerCallbacks("pause");
-        break;
+    // Keys pressed while binding are for the binding, not the game
+    if (this.capture) return;
+    // Let text fields (e.g. leaderboard initials) receive game keys
+    if (this.isEditableTarget(event.target)) return;
+    if (!this.acceptsInput(event)) return;
+
+    const action = findKeyAction(this.bindings, event.code);
+    if (!action) return;
+
+    event.preventDefault();
+    // Holding a key auto-repeats keydown - toggles and jumps fire once per press
+    if (action === "pause") {
+      if (event.repeat) return;
+      this.keys.pause = !this.keys.pause;
+      this.triggerCallbacks("pause");
+      return;
+    }
+
+    this.keys[action] = true;
+    if (action === "space" && !event.repeat) {
+      this.jumpKeyHeld = true;
+      this.triggerCallbacks("jump");
+    }
+  }
+
+  /**
+   * Only react to keys and page-wide clicks while the player is in `element`:
+   * focus is inside it, or the last click or tap landed in it. Releases are
+   * always handled so keys can't get stuck. Pass null to lift the scope.
+   */
+  public setFocusScope(element: HTMLElement | null): void {
+    if (typeof document === "undefined") return;
+
+    if (this.focusScope) {
+      document.removeEventListener(
+        "pointerdown",
+        this.boundHandleScopeEvent,
+        true,
+      );
+      document.removeEventListener("focusin", this.boundHandleScopeEvent, true);
+    }
+
+    this.focusScope = element;
+    this.scopeEngaged = this.isInScope(document.activeElement);
+    if (!element) return;
+
+    document.addEventListener("pointerdown", this.boundHandleScopeEvent, true);
+    document.addEventListener("focusin", this.boundHandleScopeEvent, true);
+  }
+
+  /**
+   * Check if the player is currently in the focus scope
+   */
+  public isScopeEngaged(): boolean {
+    return !this.focusScope || this.scopeEngaged;
+  }
+
+  private handleScopeEvent(event: Event): void {
+    this.scopeEngaged = this.isInScope(event.target);
+  }
+
+  private acceptsInput(event: Event): boolean {
+    return this.isScopeEngaged() || this.isInScope(event.target);
+  }
+
+  private isInScope(target: EventTarget | null): boolean {
+    if (!this.focusScope || !target) return false;
+    return this.focusScope.contains(target as Node);
+  }
+
+  /**
+   * Check if a key event comes from a text input the player is typing in
+   */
+  private isEditableTarget(target: EventTarget | null): boolean {
+    const element = target as HTMLElement | null;
+    if (!element || typeof element.tagName !== "string") return false;
+
+    const tag = element.tagName.toUpperCase();
+    if (tag === "INPUT") {
+      const type = (element as HTMLInputElement).type || "text";
+      return !["range", "checkbox", "radio", "button", "submit"].includes(type);
     }
+    return tag === "TEXTAREA" || !!element.isContentEditable;
+  }
+
+  /**
+   * Check if a click lands on a control (or inside one) rather than the game
+   */
+  private isInteractiveTarget(target: EventTarget | null): boolean {
+    const element = target as HTMLElement | null;
+    if (!element || typeof element.closest !== "function") return false;
+    return element.closest(INTERACTIVE_SELECTOR) !== null;
   }
 
   /**
    * Handle keyboard key up
    */
   private handleKeyUp(event: KeyboardEvent): void {
-    switch (event.code) {
-      case "ArrowLeft":
-      case "KeyA":
-        this.keys.left = false;
-        break;
-      case "ArrowRight":
-      case "KeyD":
-        this.keys.right = false;
-        break;
-      case "ArrowUp":
-      case "KeyW":
-        this.keys.up = false;
-        break;
-      case "ArrowDown":
-      case "KeyS":
-        this.keys.down = false;
-        break;
-      case "Space":
-      case "KeyJ":
-        this.keys.space = false;
-        break;
-    }
+    const action = findKeyAction(this.bindings, event.code);
+    // Pause toggles on key down only
+    if (!action || action === "pause") return;
+
+    this.keys[action] = false;
+    if (action === "space") this.jumpKeyHeld = false;
   }
 
   /**
    * Handle touch start (DOM-agnostic - no preventDefault)
+   *
+   * Each new finger holds an action by where it lands: the left and right
+   * 30% of the element move, the middle jumps.
    */
   private handleTouchStart(event: TouchEvent): void {
     // Note: preventDefault must be called by the element-level handler if needed
 
     // Gracefully handle cases where touches might be undefined
-    if (!event.touches || event.touches.length === 0) {
+    const changed = event.changedTouches;
+    if (!changed || changed.length === 0) {
       // Fallback: treat as jump if no touch data available
       this.keys.space = true;
       this.triggerCallbacks("jump");
       return;
     }
 
-    const touch = event.touches[0];
-    const x = touch.clientX;
-    const screenWidth = window.innerWidth;
+    const { left, width } = this.getTouchArea(event);
+    const now = Date.now();
+    let jumped = false;
 
-    // Left side of screen for left movement
-    if (x < screenWidth * 0.3) {
-      this.keys.left = true;
-    }
-    // Right side of screen for right movement
-    else if (x > screenWidth * 0.7) {
-      this.keys.right = true;
+    for (let i = 0; i < changed.length; i++) {
+      const touch = changed[i];
+      const x = (touch.clientX - left) / width;
+      const action = x < 0.3 ? "left" : x > 0.7 ? "right" : "space";
+      if (action === "space") jumped = true;
+
+      this.touches.set(touch.identifier, {
+        action,
+        startX: touch.clientX,
+        startY: touch.clientY,
+        startTime: now,
+        moved: false,
+        swiped: false,
+        ducking: false,
+      });
     }
-    // Middle of screen for jump
-    else {
-      this.keys.space = true;
-      this.triggerCallbacks("jump");
+
+    this.detectTwoFingerTap();
+    this.updateTouchKeys();
+    if (jumped && this.touchKeys.space) this.triggerCallbacks("jump");
+  }
+
+  /**
+   * Handle touch move - swipe down ducks, swipe up jumps
+   */
+  private handleTouchMove(event: TouchEvent): void {
+    const changed = event.changedTouches;
+    if (!changed) return;
+
+    for (let i = 0; i < changed.length; i++) {
+      const touch = changed[i];
+      const track = this.touches.get(touch.identifier);
+      if (!track) continue;
+
+      const dx = touch.clientX - track.startX;
+      const dy = touch.clientY - track.startY;
+      if (Math.hypot(dx, dy) > TAP_SLOP) track.moved = true;
+
+      // Two-finger taps and finished swipes don't swipe again
+      if (track.swiped || this.twoFingerTap?.ids.has(touch.identifier)) {
+        continue;
+      }
+      if (Math.abs(dy) < SWIPE_DISTANCE || Math.abs(dy) < Math.abs(dx)) {
+        continue;
+      }
+
+      track.swiped = true;
+      if (dy > 0) {
+        // Duck for as long as the finger stays down, instead of jumping
+        track.ducking = true;
+        if (track.action === "space") track.action = null;
+      } else if (track.action !== "space") {
+        track.action = "space";
+        this.updateTouchKeys();
+        this.triggerCallbacks("jump");
+      }
     }
+
+    this.updateTouchKeys();
   }
 
   /**
    * Handle touch end (DOM-agnostic - no preventDefault)
+   *
+   * Only the lifted fingers let go of their actions.
    */
-  private handleTouchEnd(_event: TouchEvent): void {
+  private handleTouchEnd(event: TouchEvent): void {
     // Note: preventDefault must be called by the element-level handler if needed
 
-    // Reset all touch-based inputs
-    this.keys.left = false;
-    this.keys.right = false;
-    this.keys.space = false;
+    const changed = event?.changedTouches;
+    if (!changed || changed.length === 0) {
+      // No touch data - let go of everything
+      this.touches.clear();
+      this.twoFingerTap = null;
+      this.keys.space = false;
+      this.updateTouchKeys();
+      return;
+    }
+
+    const now = Date.now();
+    for (let i = 0; i < changed.length; i++) {
+      const id = changed[i].identifier;
+      const track = this.touches.get(id);
+      this.touches.delete(id);
+
+      const tap = this.twoFingerTap;
+      if (!track || !tap || !tap.ids.has(id)) continue;
+
+      if (track.moved || now - track.startTime > TAP_MAX_MS) tap.valid = false;
+      tap.ids.delete(id);
+      if (tap.ids.size === 0) {
+        this.twoFingerTap = null;
+        if (tap.valid) {
+          this.keys.pause = !this.keys.pause;
+          this.triggerCallbacks("pause");
+        }
+      }
+    }
+
+    this.updateTouchKeys();
+  }
+
+  /**
+   * Two fingers landing together start a two-finger tap. They stop holding
+   * their zone actions; a third finger calls the tap off.
+   */
+  private detectTwoFingerTap(): void {
+    if (this.twoFingerTap) {
+      if (this.touches.size > 2) this.twoFingerTap.valid = false;
+      return;
+    }
+    if (this.touches.size !== 2) return;
+
+    const tracks = [...this.touches.values()];
+    if (
+      Math.abs(tracks[0].startTime - tracks[1].startTime) > TWO_FINGER_WINDOW_MS
+    ) {
+      return;
+    }
+
+    this.twoFingerTap = { ids: new Set(this.touches.keys()), valid: true };
+    for (const track of tracks) track.action = null;
+  }
+
+  /**
+   * Recompute the actions held by fingers still on the screen
+   */
+  private updateTouchKeys(): void {
+    const keys = createInputState();
+    for (const track of this.touches.values()) {
+      if (track.action) keys[track.action] = true;
+      if (track.ducking) keys.down = true;
+    }
+    this.touchKeys = keys;
+  }
+
+  /**
+   * Horizontal extent the touch zones split - the touched element when
+   * known, otherwise the window
+   */
+  private getTouchArea(event: TouchEvent): { left: number; width: number } {
+    const element = event.currentTarget as HTMLElement | null;
+    if (element && typeof element.getBoundingClientRect === "function") {
+      const rect = element.getBoundingClientRect();
+      if (rect.width > 0) return { left: rect.left, width: rect.width };
+    }
+    return { left: 0, width: window.innerWidth || 1 };
   }
 
   /**
    * Handle mouse down
    */
   private handleMouseDown(event: MouseEvent): void {
+    if (!this.acceptsInput(event)) return;
+    if (this.isInteractiveTarget(event.target)) return;
+
     // Left click for jump
     if (event.button === 0) {
       this.keys.space = true;
@@ -220,9 +512,12 @@ export class InputHandler {
   /**
    * Handle pointer down (unified touch/mouse/stylus input - DOM-agnostic)
    */
-  private handlePointerDown(_event: PointerEvent): void {
+  private handlePointerDown(event: PointerEvent): void {
     // Note: preventDefault must be called by the element-level handler if needed
 
+    // Fingers are tracked through touch events, one action per finger
+    if (event.pointerType === "touch") return;
+
     // Treat pointer down like a touch/click - trigger jump
     this.keys.space = true;
     this.triggerCallbacks("jump");
@@ -231,9 +526,11 @@ export class InputHandler {
   /**
    * Handle pointer up (DOM-agnostic)
    */
-  private handlePointerUp(_event: PointerEvent): void {
+  private handlePointerUp(event: PointerEvent): void {
     // Note: preventDefault must be called by the element-level handler if needed
 
+    if (event.pointerType === "touch") return;
+
     this.keys.space = false;
   }
 
@@ -241,28 +538,47 @@ export class InputHandler {
    * Get current input state
    */
   public getInputState(): InputState {
-    return { ...this.keys };
+    return {
+      left: this.isPressed("left"),
+      right: this.isPressed("right"),
+      up: this.isPressed("up"),
+      down: this.isPressed("down"),
+      space: this.isPressed("space"),
+      pause: this.keys.pause,
+    };
   }
 
   /**
    * Check if specific key is pressed
    */
   public isPressed(key: keyof InputState): boolean {
-    return this.keys[key];
+    // Start on a gamepad toggles pause through pollGamepads() instead
+    if (key === "pause") return this.keys.pause;
+    return (
+      this.keys[key] ||
+      this.gamepadKeys[key] ||
+      this.touchKeys[key] ||
+      this.padKeys[key]
+    );
   }
 
   /**
    * Check if any movement key is pressed
    */
   public isMoving(): boolean {
-    return this.keys.left || this.keys.right || this.keys.up || this.keys.down;
+    return (
+      this.isPressed("left") ||
+      this.isPressed("right") ||
+      this.isPressed("up") ||
+      this.isPressed("down")
+    );
   }
 
   /**
    * Check if jump/action is pressed
    */
   public isJumping(): boolean {
-    return this.keys.space;
+    return this.isPressed("space");
   }
 
   /**
@@ -276,8 +592,8 @@ export class InputHandler {
    * Get horizontal movement direction
    */
   public getHorizontalDirection(): number {
-    if (this.keys.left) return -1;
-    if (this.keys.right) return 1;
+    if (this.isPressed("left")) return -1;
+    if (this.isPressed("right")) return 1;
     return 0;
   }
 
@@ -285,8 +601,8 @@ export class InputHandler {
    * Get vertical movement direction
    */
   public getVerticalDirection(): number {
-    if (this.keys.up) return -1;
-    if (this.keys.down) return 1;
+    if (this.isPressed("up")) return -1;
+    if (this.isPressed("down")) return 1;
     return 0;
   }
 
@@ -312,6 +628,79 @@ export class InputHandler {
       space: false,
       pause: false,
     };
+    this.jumpKeyHeld = false;
+    this.touches.clear();
+    this.touchKeys = createInputState();
+    this.padKeys = createInputState();
+    this.twoFingerTap = null;
+  }
+
+  /**
+   * Read connected gamepads into the input state. Call once per fixed step.
+   * A press of A fires the jump callbacks and Start the pause callbacks;
+   * returns true when Start was pressed since the last poll.
+   */
+  public pollGamepads(): boolean {
+    const pads = this.getGamepads();
+    const seen = new Set<number>();
+    const held = createInputState();
+    let jumpPressed = false;
+    let startPressed = false;
+
+    for (let i = 0; i < pads.length; i++) {
+      const pad = pads[i];
+      if (!pad || !pad.connected) continue;
+
+      seen.add(pad.index);
+      const state = readGamepad(pad, this.gamepadDeadzone);
+      const previous = this.gamepads.get(pad.index);
+      if (!previous) this.notifyGamepad({ index: pad.index, id: pad.id }, true);
+
+      // Edges are per pad, so two pads can't hold each other's buttons down
+      if (state.space && !previous?.state.space) jumpPressed = true;
+      if (state.pause && !previous?.state.pause) startPressed = true;
+      this.gamepads.set(pad.index, { id: pad.id, state });
+
+      for (const action of Object.keys(held) as (keyof InputState)[]) {
+        held[action] = held[action] || state[action];
+      }
+    }
+
+    for (const [index, pad] of this.gamepads) {
+      if (seen.has(index)) continue;
+      this.gamepads.delete(index);
+      this.notifyGamepad({ index, id: pad.id }, false);
+    }
+
+    this.gamepadKeys = held;
+    if (jumpPressed) this.triggerCallbacks("jump");
+    if (startPressed) this.triggerCallbacks("pause");
+    return startPressed;
+  }
+
+  /**
+   * Gamepads seen by the last poll
+   */
+  public getConnectedGamepads(): GamepadInfo[] {
+    return [...this.gamepads].map(([index, pad]) => ({ index, id: pad.id }));
+  }
+
+  /**
+   * Set callback for gamepads connecting and disconnecting
+   */
+  public setGamepadCallback(
+    callback: (gamepad: GamepadInfo, connected: boolean) => void,
+  ): void {
+    this.onGamepadCallback = callback;
+  }
+
+  private notifyGamepad(gamepad: GamepadInfo, connected: boolean): void {
+    if (!this.onGamepadCallback) return;
+    try {
+      this.onGamepadCallback(gamepad, connected);
+    } catch (error) {
+      console.error("InputHandler: Error in gamepad callback:", error);
+    }
   }
 
   /**
@@ -400,9 +789,10 @@ export class InputHandler {
       case "jump":
         this.keys.space = true;
         this.triggerCallbacks("jump");
-        // Auto-reset space after a short delay to prevent stuck state
+        // Auto-reset space after a short delay to prevent stuck state,
+        // unless the jump key is physically held (variable-height jumps)
         setTimeout(() => {
-          this.keys.space = false;
+          if (!this.jumpKeyHeld) this.keys.space = false;
         }, 50);
         break;
       case "left":
@@ -446,7 +836,7 @@ export class InputHandler {
   }
 
   /**
-   * Create virtual gamepad interface
+   * Create virtual gamepad interface - D-pad, A (jump), B (duck) and Start
    */
   public createVirtualGamepad(): {
     onButtonPress: (button: string) => void;
@@ -456,20 +846,22 @@ export class InputHandler {
       onButtonPress: (button: string) => {
         switch (button.toLowerCase()) {
           case "left":
-            this.keys.left = true;
+            this.padKeys.left = true;
             break;
           case "right":
-            this.keys.right = true;
+            this.padKeys.right = true;
             break;
           case "up":
-            this.keys.up = true;
+            this.padKeys.up = true;
             break;
           case "down":
-            this.keys.down = true;
+          case "b":
+          case "duck":
+            this.padKeys.down = true;
             break;
           case "a":
           case "jump":
-            this.keys.space = true;
+            this.padKeys.space = true;
             this.triggerCallbacks("jump");
             break;
           case "start":
@@ -482,26 +874,155 @@ export class InputHandler {
       onButtonRelease: (button: string) => {
         switch (button.toLowerCase()) {
           case "left":
-            this.keys.left = false;
+            this.padKeys.left = false;
             break;
           case "right":
-            this.keys.right = false;
+            this.padKeys.right = false;
             break;
           case "up":
-            this.keys.up = false;
+            this.padKeys.up = false;
             break;
           case "down":
-            this.keys.down = false;
+          case "b":
+          case "duck":
+            this.padKeys.down = false;
             break;
           case "a":
           case "jump":
-            this.keys.space = false;
+            this.padKeys.space = false;
             break;
         }
       },
     };
   }
 
+  /**
+   * Current key bindings
+   */
+  public getBindings(): KeyBindings {
+    return copyKeyBindings(this.bindings);
+  }
+
+  /**
+   * Action a key is bound to, or null if it is free
+   */
+  public getKeyAction(code: string): InputAction | null {
+    return findKeyAction(this.bindings, code);
+  }
+
+  /**
+   * Bind a key to an action alongside its other keys. A key bound to another
+   * action is a conflict: it is left alone unless `force` is set, in which
+   * case it moves over - as long as the other action keeps a key.
+   */
+  public bindKey(
+    action: InputAction,
+    code: string,
+    force: boolean = false,
+  ): KeyBindingResult {
+    const owner = findKeyAction(this.bindings, code);
+    if (owner === action) {
+      return { action, code, bound: true, conflict: null };
+    }
+
+    if (owner) {
+      if (!force || this.bindings[owner].length === 1) {
+        return { action, code, bound: false, conflict: owner };
+      }
+      this.bindings[owner] = this.bindings[owner].filter((c) => c !== code);
+    }
+
+    this.bindings[action].push(code);
+    this.save();
+    return { action, code, bound: true, conflict: owner };
+  }
+
+  /**
+   * Remove a key binding - an action's last key can't be removed
+   */
+  public unbindKey(code: string): boolean {
+    const action = findKeyAction(this.bindings, code);
+    if (!action || this.bindings[action].length === 1) return false;
+
+    this.bindings[action] = this.bindings[action].filter((c) => c !== code);
+    this.keys[action] = false;
+    this.save();
+    return true;
+  }
+
+  /**
+   * Restore the default bindings
+   */
+  public resetBindings(): void {
+    this.bindings = copyKeyBindings(DEFAULT_KEY_BINDINGS);
+    if (this.persist) clearKeyBindings(this.storageKey);
+  }
+
+  /**
+   * Bind the next key pressed to an action ("press a key to bind").
+   * Resolves with the bind result, or null if cancelled with Escape or
+   * cancelCapture(). The captured key doesn't reach the game.
+   */
+  public captureBinding(
+    action: InputAction,
+    force: boolean = false,
+  ): Promise<KeyBindingResult | null> {
+    this.cancelCapture();
+
+    return new Promise((resolve) => {
+      this.capture = { action, force, resolve };
+      if (typeof window !== "undefined") {
+        // Capture phase, so page handlers (e.g. Escape closing a menu) don't
+        // see the key first
+        window.addEventListener("keydown", this.boundHandleCaptureKey, true);
+      }
+    });
+  }
+
+  /**
+   * Stop waiting for a key to bind
+   */
+  public cancelCapture(): void {
+    this.finishCapture(null);
+  }
+
+  /**
+   * Check if the next key press will be bound
+   */
+  public isCapturing(): boolean {
+    return this.capture !== null;
+  }
+
+  private handleCaptureKey(event: KeyboardEvent): void {
+    const capture = this.capture;
+    if (!capture || event.repeat) return;
+
+    event.preventDefault();
+    event.stopPropagation();
+
+    if (event.code === "Escape" || !event.code) {
+      this.finishCapture(null);
+      return;
+    }
+    this.finishCapture(this.bindKey(capture.action, event.code, capture.force));
+  }
+
+  private finishCapture(result: KeyBindingResult | null): void {
+    const capture = this.capture;
+    if (!capture) return;
+
+    this.capture = null;
+    if (typeof window !== "undefined") {
+      window.removeEventListener("keydown", this.boundHandleCaptureKey, true);
+    }
+    capture.resolve(result);
+  }
+
+  private save(): void {
+    if (!this.persist) return;
+    saveKeyBindings(this.bindings, this.storageKey);
+  }
+
   /**
    * Attach touch/pointer handlers to a specific element
    * These handlers will call preventDefault() to block page scrolling
@@ -517,6 +1038,11 @@ export class InputHandler {
       this.handleTouchStart(event);
     };
 
+    const boundTouchMove = (event: TouchEvent) => {
+      event.preventDefault();
+      this.handleTouchMove(event);
+    };
+
     const boundTouchEnd = (event: TouchEvent) => {
       event.preventDefault();
       this.handleTouchEnd(event);
@@ -535,6 +1061,7 @@ export class InputHandler {
     // Store handlers for later removal
     this.elementTouchHandlers.set(element, {
       boundTouchStart,
+      boundTouchMove,
       boundTouchEnd,
       boundPointerDown,
       boundPointerUp,
@@ -542,7 +1069,10 @@ export class InputHandler {
 
     // Attach listeners with preventDefault capability
     element.addEventListener("touchstart", boundTouchStart, { passive: false });
+    element.addEventListener("touchmove", boundTouchMove, { passive: false });
     element.addEventListener("touchend", boundTouchEnd, { passive: false });
+    // A cancelled touch (e.g. a system gesture) lets go like a lifted finger
+    element.addEventListener("touchcancel", boundTouchEnd, { passive: false });
 
     if (window.PointerEvent) {
       element.addEventListener("pointerdown", boundPointerDown, {
@@ -563,7 +1093,9 @@ export class InputHandler {
 
     // Remove listeners
     element.removeEventListener("touchstart", handlers.boundTouchStart);
+    element.removeEventListener("touchmove", handlers.boundTouchMove);
     element.removeEventListener("touchend", handlers.boundTouchEnd);
+    element.removeEventListener("touchcancel", handlers.boundTouchEnd);
 
     if (window.PointerEvent) {
       element.removeEventListener("pointerdown", handlers.boundPointerDown);
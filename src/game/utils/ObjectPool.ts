@@ -265,15 +265,16 @@ export class EntityPool<T extends PoolableObject> extends ObjectPool<T> {
   }
 
   /**
-   * Clean up off-screen entities
+   * Clean up entities that have scrolled off the left or fallen off the
+   * bottom. Entities spawn beyond the right edge and scroll in, so anything
+   * off to the right hasn't come on screen yet and is kept
    */
-  public cleanupOffScreen(screenWidth: number, screenHeight: number): void {
+  public cleanupOffScreen(screenHeight: number): void {
     this.getActive().forEach((ent) => {
       const entityObj = ent as any;
       if (entityObj.position && entityObj.size) {
         const isOffScreen =
           entityObj.position.x + entityObj.size.width < -50 ||
-          entityObj.position.x > screenWidth + 50 ||
           entityObj.position.y > screenHeight + 50;
 
         if (isOffScreen) {
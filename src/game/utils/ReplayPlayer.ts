@@ -0,0 +1,147 @@
+/**
+ * Replay Player - Feeds a recorded input stream back into the GameEngine
+ */
+
+import type { GameEngine } from "../GameEngine";
+import type {
+  GameConfig,
+  GameMode,
+  GameState,
+  InputState,
+  ReplayData,
+} from "../types/GameTypes";
+import { decodeInput } from "./ReplayRecorder";
+
+export class ReplayPlayer {
+  private replay: ReplayData;
+  private runIndex: number = 0;
+  private runOffset: number = 0;
+  private frame: number = 0;
+  private engine: GameEngine | null = null;
+  private previousSeed: number | null = null;
+  private previousMode: GameMode = "endless";
+  private boundHandleGameOver: () => void;
+
+  constructor(replay: ReplayData) {
+    this.replay = replay;
+    this.boundHandleGameOver = this.detach.bind(this);
+  }
+
+  /**
+   * Input for the next fixed step - idle input once the replay is exhausted
+   */
+  public next(): InputState {
+    const run = this.replay.inputs[this.runIndex];
+    if (!run) return decodeInput(0);
+
+    this.frame++;
+    this.runOffset++;
+    if (this.runOffset >= run[0]) {
+      this.runIndex++;
+      this.runOffset = 0;
+    }
+
+    return decodeInput(run[1]);
+  }
+
+  /**
+   * Check if every recorded frame has been played back
+   */
+  public isFinished(): boolean {
+    return this.frame >= this.replay.frames;
+  }
+
+  /**
+   * Get the number of frames played so far
+   */
+  public getFrame(): number {
+    return this.frame;
+  }
+
+  /**
+   * Rewind to the first frame
+   */
+  public rewind(): void {
+    this.runIndex = 0;
+    this.runOffset = 0;
+    this.frame = 0;
+  }
+
+  /**
+   * Get the replay being played
+   */
+  public getReplay(): ReplayData {
+    return this.replay;
+  }
+
+  /**
+   * Check if the engine's gameplay config matches the recorded one
+   */
+  public isCompatible(config: GameConfig): boolean {
+    const recorded = this.replay.config as unknown as Record<string, unknown>;
+    const current = config as unknown as Record<string, unknown>;
+    return Object.keys(recorded).every(
+      (key) => JSON.stringify(recorded[key]) === JSON.stringify(current[key]),
+    );
+  }
+
+  /**
+   * Restart the engine with the replay's seed and drive it from the recording.
+   * The recorded spawn rate and difficulty are used while it plays; returns
+   * false, leaving the engine alone, if anything else differs
+   */
+  public play(engine: GameEngine): boolean {
+    const { spawnRate, difficulty } = this.replay.config;
+    if (
+      !this.isCompatible({ ...engine.getGameConfig(), spawnRate, difficulty })
+    ) {
+      console.warn(
+        "ReplayPlayer: Engine config differs from the recording, can't play it back",
+      );
+      return false;
+    }
+
+    this.detach();
+    this.rewind();
+    this.engine = engine;
+    this.previousSeed = engine.getPinnedSeed();
+    this.previousMode = engine.getMode();
+
+    // Daily mode would replace the recorded seed with today's
+    engine.setMode("endless");
+    engine.setSeed(this.replay.seed);
+    engine.setInputSource(() => this.next(), this.replay.config);
+    engine.restart();
+
+    // Listen after restarting so stopping a live run doesn't end playback
+    engine.addEventListener("gameover", this.boundHandleGameOver);
+    return true;
+  }
+
+  /**
+   * Play the whole replay on a headless engine as fast as possible and
+   * return the final state - used to verify scores without rendering.
+   * Null if the engine can't play the replay
+   */
+  public simulate(engine: GameEngine): GameState | null {
+    if (!this.play(engine)) return null;
+    engine.step(this.replay.frames);
+
+    const state = engine.getGameState();
+    this.detach();
+    return state;
+  }
+
+  /**
+   * Hand input back to the player once playback ends
+   */
+  public detach(): void {
+    if (!this.engine) return;
+
+    this.engine.removeEventListener("gameover", this.boundHandleGameOver);
+    this.engine.setInputSource(null);
+    this.engine.setSeed(this.previousSeed);
+    this.engine.setMode(this.previousMode);
+    this.engine = null;
+  }
+}
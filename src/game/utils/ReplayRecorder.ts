@@ -0,0 +1,156 @@
+/**
+ * Replay Recorder - Captures per-step input so a run can be reproduced exactly
+ */
+
+import type { GameConfig, InputState, ReplayData } from "../types/GameTypes";
+
+export const REPLAY_VERSION = 1;
+
+// Bit order for the packed input mask. Pause is deliberately left out: it is
+// a meta action and paused frames never reach the fixed-step update anyway.
+const INPUT_BITS: ReadonlyArray<keyof InputState> = [
+  "left",
+  "right",
+  "up",
+  "down",
+  "space",
+];
+
+/**
+ * Pack an input state into a bitmask
+ */
+export function encodeInput(input: InputState): number {
+  let mask = 0;
+  INPUT_BITS.forEach((key, bit) => {
+    if (input[key]) mask |= 1 << bit;
+  });
+  return mask;
+}
+
+/**
+ * Unpack a bitmask into an input state
+ */
+export function decodeInput(mask: number): InputState {
+  const input: InputState = {
+    left: false,
+    right: false,
+    up: false,
+    down: false,
+    space: false,
+    pause: false,
+  };
+  INPUT_BITS.forEach((key, bit) => {
+    input[key] = (mask & (1 << bit)) !== 0;
+  });
+  return input;
+}
+
+/**
+ * Serialize a replay to a compact JSON string
+ */
+export function serializeReplay(replay: ReplayData): string {
+  return JSON.stringify(replay);
+}
+
+/**
+ * Check that untrusted data has the shape of a replay
+ */
+export function isValidReplay(data: any): data is ReplayData {
+  return (
+    !!data &&
+    data.version === REPLAY_VERSION &&
+    typeof data.seed === "number" &&
+    typeof data.frames === "number" &&
+    !!data.config &&
+    Array.isArray(data.inputs) &&
+    data.inputs.every(
+      (run: unknown) =>
+        Array.isArray(run) &&
+        run.length === 2 &&
+        typeof run[0] === "number" &&
+        typeof run[1] === "number",
+    )
+  );
+}
+
+/**
+ * Parse a serialized replay, returning null if it is malformed
+ */
+export function parseReplay(serialized: string): ReplayData | null {
+  try {
+    const data = JSON.parse(serialized);
+    if (!isValidReplay(data)) {
+      console.warn("ReplayRecorder: Invalid replay data");
+      return null;
+    }
+    return data;
+  } catch (error) {
+    console.warn("ReplayRecorder: Failed to parse replay:", error);
+    return null;
+  }
+}
+
+export class ReplayRecorder {
+  private seed: number = 0;
+  private config: GameConfig | null = null;
+  private inputs: Array<[number, number]> = [];
+  private frames: number = 0;
+  private recording: boolean = false;
+
+  /**
+   * Begin recording a new run
+   */
+  public start(seed: number, config: GameConfig): void {
+    this.seed = seed;
+    this.config = { ...config };
+    this.inputs = [];
+    this.frames = 0;
+    this.recording = true;
+  }
+
+  /**
+   * Record the input used for one fixed step (run-length encoded)
+   */
+  public record(input: InputState): void {
+    if (!this.recording) return;
+
+    const mask = encodeInput(input);
+    const last = this.inputs[this.inputs.length - 1];
+    if (last && last[1] === mask) {
+      last[0]++;
+    } else {
+      this.inputs.push([1, mask]);
+    }
+    this.frames++;
+  }
+
+  /**
+   * Stop recording and return the finished replay
+   */
+  public stop(score: number): ReplayData {
+    this.recording = false;
+    return this.getReplay(score);
+  }
+
+  /**
+   * Snapshot of the replay recorded so far
+   */
+  public getReplay(score: number = 0): ReplayData {
+    return {
+      version: REPLAY_VERSION,
+      seed: this.seed,
+      config: { ...(this.config as GameConfig) },
+      frames: this.frames,
+      inputs: this.inputs.map(([count, mask]) => [count, mask]),
+      score,
+    };
+  }
+
+  public isRecording(): boolean {
+    return this.recording;
+  }
+
+  public getFrameCount(): number {
+    return this.frames;
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Run Tracker - Base for systems built from the engine's event stream one
+ * run at a time
+ *
+ * Handles subscribing to an event source and bracketing runs between
+ * `gamestart` and `gameover`. Events outside a run, played-back runs and
+ * repeated `gameover` events for the same run never reach subclasses.
+ */
+
+import type { GameEvent, GameEventSource } from "../types/GameTypes";
+
+export abstract class RunTracker {
+  protected runActive: boolean = false;
+  private listenedEvents: string[];
+  private source: GameEventSource | null = null;
+  private boundHandleEvent: (event: GameEvent) => void;
+
+  constructor(listenedEvents: string[]) {
+    this.listenedEvents = ["gamestart", "gameover", ...listenedEvents];
+    this.boundHandleEvent = this.handleEvent.bind(this);
+  }
+
+  /**
+   * Start listening to an event source, detaching from any previous one
+   */
+  public attach(source: GameEventSource): void {
+    this.detach();
+    this.source = source;
+    for (const type of this.listenedEvents) {
+      source.addEventListener(type, this.boundHandleEvent);
+    }
+  }
+
+  public detach(): void {
+    if (!this.source) return;
+    for (const type of this.listenedEvents) {
+      this.source.removeEventListener(type, this.boundHandleEvent);
+    }
+    this.source = null;
+  }
+
+  /**
+   * Route one game event to the run it belongs to
+   */
+  public handleEvent(event: GameEvent): void {
+    const data = event.data ?? {};
+
+    switch (event.type) {
+      case "gamestart":
+        // Played-back runs were already counted when they were played
+        this.runActive = !data.replay;
+        if (this.runActive) this.startRun();
+        break;
+
+      case "gameover":
+        // Repeated stop() calls report the same run again
+        if (!this.runActive) return;
+        this.runActive = false;
+        this.finishRun(data);
+        break;
+
+      default:
+        if (this.runActive) this.handleRunEvent(event.type, data);
+    }
+  }
+
+  protected startRun(): void {}
+
+  protected abstract handleRunEvent(type: GameEvent["type"], data: any): void;
+
+  protected abstract finishRun(data: any): void;
+}
@@ -0,0 +1,102 @@
+/**
+ * Seeded Random - Deterministic PRNG so game runs can be reproduced exactly
+ */
+
+export class SeededRandom {
+  private seed: number;
+  private state: number;
+
+  constructor(seed: number = SeededRandom.generateSeed()) {
+    this.seed = SeededRandom.normalizeSeed(seed);
+    this.state = this.seed;
+  }
+
+  /**
+   * Create a fresh seed for runs that don't request a specific one
+   */
+  public static generateSeed(): number {
+    return Math.floor(Math.random() * 0x100000000) >>> 0;
+  }
+
+  /**
+   * Coerce any number into a valid unsigned 32-bit seed
+   */
+  public static normalizeSeed(seed: number): number {
+    if (!Number.isFinite(seed)) return 0;
+    return Math.floor(seed) >>> 0;
+  }
+
+  /**
+   * Next float in [0, 1) - mulberry32
+   */
+  public next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Float in [min, max)
+   */
+  public range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /**
+   * Integer in [min, max] (inclusive)
+   */
+  public int(min: number, max: number): number {
+    return Math.floor(this.range(min, max + 1));
+  }
+
+  /**
+   * Returns true with the given probability
+   */
+  public chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  /**
+   * Pick a random item from a non-empty list
+   */
+  public pick<T>(items: readonly T[]): T {
+    return items[Math.floor(this.next() * items.length)];
+  }
+
+  /**
+   * Pick a key from a table of relative weights - null if all weights are 0
+   */
+  public weighted<T extends string>(
+    weights: Partial<Record<T, number>>,
+  ): T | null {
+    const entries = (Object.entries(weights) as [T, number][]).filter(
+      ([, weight]) => weight > 0,
+    );
+    const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+    if (total <= 0) return null;
+
+    let roll = this.next() * total;
+    for (const [key, weight] of entries) {
+      roll -= weight;
+      if (roll < 0) return key;
+    }
+    return entries[entries.length - 1][0];
+  }
+
+  /**
+   * Get the seed this generator was started from
+   */
+  public getSeed(): number {
+    return this.seed;
+  }
+
+  /**
+   * Rewind to the start of the sequence, optionally with a new seed
+   */
+  public reset(seed: number = this.seed): void {
+    this.seed = SeededRandom.normalizeSeed(seed);
+    this.state = this.seed;
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Storage - Versioned localStorage records shared by persisted game data
+ *
+ * Values are stored as { version, data } so a schema change can migrate old
+ * records instead of silently misreading them.
+ */
+
+export interface VersionedRecord<T> {
+  version: number;
+  data: T;
+}
+
+/**
+ * Migrate data saved under an older schema version - return null to discard
+ */
+export type StorageMigration<T> = (
+  data: unknown,
+  fromVersion: number,
+) => T | null;
+
+function hasStorage(): boolean {
+  return typeof localStorage !== "undefined";
+}
+
+/**
+ * Read a raw string value (used for legacy unversioned keys)
+ */
+export function readStored(key: string): string | null {
+  if (!hasStorage()) return null;
+
+  try {
+    return localStorage.getItem(key);
+  } catch (error) {
+    console.warn(`Storage: Failed to read "${key}":`, error);
+    return null;
+  }
+}
+
+/**
+ * Remove a stored key
+ */
+export function removeStored(key: string): void {
+  if (!hasStorage()) return;
+
+  try {
+    localStorage.removeItem(key);
+  } catch (error) {
+    console.warn(`Storage: Failed to remove "${key}":`, error);
+  }
+}
+
+/**
+ * Load a versioned record, migrating older versions when possible.
+ * Returns null when nothing usable is stored.
+ */
+export function loadVersioned<T>(
+  key: string,
+  version: number,
+  migrate?: StorageMigration<T>,
+): T | null {
+  const raw = readStored(key);
+  if (raw === null) return null;
+
+  let record: VersionedRecord<unknown>;
+  try {
+    record = JSON.parse(raw);
+  } catch (error) {
+    console.warn(`Storage: Failed to parse "${key}":`, error);
+    return null;
+  }
+
+  if (!record || typeof record !== "object" || !("data" in record)) {
+    console.warn(`Storage: Ignoring unversioned data in "${key}"`);
+    return null;
+  }
+
+  const storedVersion = Number(record.version);
+  if (storedVersion === version) return record.data as T;
+
+  if (storedVersion < version && migrate) {
+    const migrated = migrate(record.data, storedVersion);
+    if (migrated !== null) saveVersioned(key, version, migrated);
+    return migrated;
+  }
+
+  console.warn(
+    `Storage: Unsupported version ${record.version} in "${key}" (expected ${version})`,
+  );
+  return null;
+}
+
+/**
+ * Save a versioned record - returns false if storage is unavailable or full
+ */
+export function saveVersioned<T>(
+  key: string,
+  version: number,
+  data: T,
+): boolean {
+  if (!hasStorage()) return false;
+
+  try {
+    const record: VersionedRecord<T> = { version, data };
+    localStorage.setItem(key, JSON.stringify(record));
+    return true;
+  } catch (error) {
+    console.warn(`Storage: Failed to save "${key}":`, error);
+    return false;
+  }
+}
@@ -0,0 +1,128 @@
+import { test, expect, devices } from "@playwright/test";
+import type { Page } from "@playwright/test";
+
+// Touch points as fractions of the canvas, so the spec fits any viewport
+interface TouchPoint {
+  id: number;
+  x: number;
+  y: number;
+}
+
+// Pixel 5 runs in Chromium with touch enabled, so Touch/TouchEvent exist
+test.use({ ...devices["Pixel 5"] });
+
+/**
+ * Dispatch a synthetic TouchEvent on the game canvas
+ */
+async function touch(
+  page: Page,
+  type: "touchstart" | "touchmove" | "touchend",
+  points: TouchPoint[],
+) {
+  await page.evaluate(
+    ({ type, points }) => {
+      const canvas = document.getElementById("mini-game-canvas")!;
+      const rect = canvas.getBoundingClientRect();
+      const touches = points.map(
+        (p) =>
+          new Touch({
+            identifier: p.id,
+            target: canvas,
+            clientX: rect.left + rect.width * p.x,
+            clientY: rect.top + rect.height * p.y,
+          }),
+      );
+      canvas.dispatchEvent(
+        new TouchEvent(type, {
+          touches: type === "touchend" ? [] : touches,
+          changedTouches: touches,
+          bubbles: true,
+          cancelable: true,
+        }),
+      );
+    },
+    { type, points },
+  );
+}
+
+async function getInputState(page: Page) {
+  return page.evaluate(() =>
+    (window as any).miniGame.raw.inputHandler.getInputState(),
+  );
+}
+
+test.describe("Touch gestures", () => {
+  test.beforeEach(async ({ page }) => {
+    await page.addInitScript(() => {
+      (window as any).__TEST_MODE = true;
+    });
+
+    // Serve the game engine from the local build
+    await page.route("**/game/game-engine.js", async (route) => {
+      const fs = await import("fs");
+      const path = await import("path");
+      const filePath = path.join(process.cwd(), "dist/game/game-engine.js");
+      await route.fulfill({
+        status: 200,
+        contentType: "application/javascript",
+        body: fs.readFileSync(filePath, "utf8"),
+      });
+    });
+
+    await page.goto("/");
+    await page.waitForFunction(() => (window as any).__miniGameReady === true, {
+      timeout: 10000,
+    });
+    await page.evaluate(() => (window as any).miniGame.start());
+  });
+
+  test("concurrent fingers hold separate actions", async ({ page }) => {
+    // Run right, then jump with a second finger
+    await touch(page, "touchstart", [{ id: 1, x: 0.9, y: 0.5 }]);
+    await page.waitForTimeout(300);
+    await touch(page, "touchstart", [{ id: 2, x: 0.5, y: 0.5 }]);
+
+    expect(await getInputState(page)).toMatchObject({
+      right: true,
+      space: true,
+    });
+
+    // Lifting the jump finger keeps the run going
+    await touch(page, "touchend", [{ id: 2, x: 0.5, y: 0.5 }]);
+    expect(await getInputState(page)).toMatchObject({
+      right: true,
+      space: false,
+    });
+
+    await touch(page, "touchend", [{ id: 1, x: 0.9, y: 0.5 }]);
+    expect((await getInputState(page)).right).toBe(false);
+  });
+
+  test("swipe down ducks and swipe up jumps", async ({ page }) => {
+    await touch(page, "touchstart", [{ id: 1, x: 0.5, y: 0.3 }]);
+    await touch(page, "touchmove", [{ id: 1, x: 0.5, y: 0.7 }]);
+    expect(await getInputState(page)).toMatchObject({
+      down: true,
+      space: false,
+    });
+    await touch(page, "touchend", [{ id: 1, x: 0.5, y: 0.7 }]);
+
+    await touch(page, "touchstart", [{ id: 2, x: 0.1, y: 0.7 }]);
+    await touch(page, "touchmove", [{ id: 2, x: 0.1, y: 0.3 }]);
+    expect((await getInputState(page)).space).toBe(true);
+    await touch(page, "touchend", [{ id: 2, x: 0.1, y: 0.3 }]);
+  });
+
+  test("two-finger tap pauses the game", async ({ page }) => {
+    const fingers = [
+      { id: 1, x: 0.4, y: 0.5 },
+      { id: 2, x: 0.6, y: 0.5 },
+    ];
+    await touch(page, "touchstart", fingers);
+    await touch(page, "touchend", fingers);
+
+    await page.waitForFunction(() => (window as any).miniGame.raw.isPaused(), {
+      timeout: 2000,
+    });
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Mock Leaderboard Server - In-memory implementation of the leaderboard HTTP
+ * API used by HttpLeaderboardProvider, for tests and local development.
+ *
+ *   bun tests/mocks/leaderboard-server.ts [port]
+ */
+
+import type {
+  LeaderboardEntry,
+  LeaderboardSubmission,
+  RankedLeaderboardEntry,
+} from "../../src/game/types/GameTypes";
+
+export interface MockLeaderboardServerOptions {
+  port?: number;
+  /**
+   * Server-side check of a submission, e.g. re-simulating its replay.
+   * Defaults to requiring a replay whose seed and score match the entry.
+   */
+  verify?: (submission: LeaderboardSubmission) => boolean;
+}
+
+export interface MockLeaderboardServer {
+  url: string;
+  entries: LeaderboardEntry[];
+  submissions: LeaderboardSubmission[];
+  stop: () => void;
+}
+
+/** Lets a game served from another origin (e.g. `astro dev`) talk to the mock */
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type",
+};
+
+export function verifyReplayMatches(
+  submission: LeaderboardSubmission,
+): boolean {
+  const { entry, replay } = submission;
+  return !!replay && replay.seed === entry.seed && replay.score === entry.score;
+}
+
+export function startMockLeaderboardServer(
+  options: MockLeaderboardServerOptions = {},
+): MockLeaderboardServer {
+  const verify = options.verify ?? verifyReplayMatches;
+  const entries: LeaderboardEntry[] = [];
+  const submissions: LeaderboardSubmission[] = [];
+
+  const ranked = (): RankedLeaderboardEntry[] =>
+    [...entries]
+      .sort((a, b) => b.score - a.score || a.date.localeCompare(b.date))
+      .map((entry, rank) => ({ ...entry, rank }));
+
+  const handle = async (request: Request): Promise<Response> => {
+    const url = new URL(request.url);
+    const around = url.pathname.match(/^\/scores\/([^/]+)\/around$/);
+
+    if (url.pathname === "/scores" && request.method === "POST") {
+      let submission: LeaderboardSubmission;
+      try {
+        submission = await request.json();
+      } catch {
+        return Response.json({ error: "invalid json" }, { status: 400 });
+      }
+      if (!submission?.entry || typeof submission.entry.id !== "string") {
+        return Response.json({ error: "missing entry" }, { status: 400 });
+      }
+
+      submissions.push(submission);
+      if (!verify(submission)) {
+        return Response.json({ accepted: false, rank: -1 });
+      }
+
+      const index = entries.findIndex((e) => e.id === submission.entry.id);
+      if (index >= 0) entries.splice(index, 1);
+      entries.push(submission.entry);
+
+      const rank = ranked().findIndex((e) => e.id === submission.entry.id);
+      return Response.json({ accepted: true, rank });
+    }
+
+    if (url.pathname === "/scores" && request.method === "GET") {
+      const limit = Number(url.searchParams.get("limit") ?? 10);
+      return Response.json({ entries: ranked().slice(0, limit) });
+    }
+
+    if (around && request.method === "GET") {
+      const radius = Number(url.searchParams.get("radius") ?? 2);
+      const all = ranked();
+      const index = all.findIndex(
+        (e) => e.id === decodeURIComponent(around[1]),
+      );
+      if (index < 0) return Response.json({ entries: [] });
+      return Response.json({
+        entries: all.slice(Math.max(0, index - radius), index + radius + 1),
+      });
+    }
+
+    return Response.json({ error: "not found" }, { status: 404 });
+  };
+
+  const server = Bun.serve({
+    port: options.port ?? 0,
+    async fetch(request) {
+      // Answer preflights before routing, then allow every response
+      const response =
+        request.method === "OPTIONS"
+          ? new Response(null, { status: 204 })
+          : await handle(request);
+      for (const [name, value] of Object.entries(CORS_HEADERS)) {
+        response.headers.set(name, value);
+      }
+      return response;
+    },
+  });
+
+  return {
+    url: `http://localhost:${server.port}`,
+    entries,
+    submissions,
+    stop: () => server.stop(true),
+  };
+}
+
+if (import.meta.main) {
+  const port = Number(process.argv[2] ?? 8787);
+  const server = startMockLeaderboardServer({ port });
+  console.log(`Mock leaderboard server listening on ${server.url}`);
+}
@@ -53,6 +53,35 @@ class MockAudioContext {
   removeEventListener: () => void = () => {};
 }
 
+function createMockEventTarget() {
+  const listeners = new Map<string, Function[]>();
+  return {
+    addEventListener(type: string, listener: Function) {
+      listeners.set(type, [...(listeners.get(type) ?? []), listener]);
+    },
+    removeEventListener(type: string, listener: Function) {
+      const remaining = (listeners.get(type) ?? []).filter(
+        (fn) => fn !== listener,
+      );
+      listeners.set(type, remaining);
+    },
+    dispatchEvent(event: { type: string; defaultPrevented?: boolean }) {
+      (listeners.get(event.type) ?? []).forEach((fn) => fn(event));
+      return !event.defaultPrevented;
+    },
+  };
+}
+
+/**
+ * Give the window and document mocks fresh listener registries, so tests can
+ * send events through whatever the code under test registered. Some suites
+ * swap in their own window, so tests that dispatch call this before each test.
+ */
+export function installMockEventTargets(): void {
+  Object.assign((global as any).window, createMockEventTarget());
+  Object.assign((global as any).document, createMockEventTarget());
+}
+
 // Mock window object for Node.js
 if (typeof global !== "undefined") {
   // Web Audio API mocks
@@ -69,8 +98,6 @@ if (typeof global !== "undefined") {
     cancelAnimationFrame: (id: number) => clearTimeout(id),
     AudioContext: MockAudioContext,
     webkitAudioContext: MockAudioContext,
-    addEventListener: () => {},
-    removeEventListener: () => {},
   };
 
   // Also add requestAnimationFrame to global scope
@@ -152,6 +179,7 @@ if (typeof global !== "undefined") {
 
   // Document mock
   (global as any).document = {
+    activeElement: null,
     createElement: (tag: string) => {
       if (tag === "canvas") {
         return new (global as any).HTMLCanvasElement();
@@ -198,6 +226,8 @@ if (typeof global !== "undefined") {
       };
     },
   };
+
+  installMockEventTargets();
 }
 
 console.log("Test bootstrap loaded - Web Audio API mocks initialized");
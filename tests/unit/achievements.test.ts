@@ -0,0 +1,253 @@
+/**
+ * Achievement Tests - Declarative unlock rules fed by game events
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import {
+  AchievementSystem,
+  ACHIEVEMENTS_KEY,
+} from "../../src/game/achievements/AchievementSystem";
+import { GameEngine } from "../../src/game/GameEngine";
+import type {
+  AchievementDefinition,
+  AchievementProgress,
+  GameEvent,
+} from "../../src/game/types/GameTypes";
+
+// Mock DOM environment
+import "../test-setup";
+
+const DEFINITIONS: AchievementDefinition[] = [
+  {
+    id: "stars",
+    name: "STARS",
+    description: "Collect 3 stars in one run",
+    metric: "stars",
+    target: 3,
+    scope: "run",
+  },
+  {
+    id: "survivor",
+    name: "SURVIVOR",
+    description: "Survive 60 seconds",
+    metric: "survivalTime",
+    target: 60000,
+    scope: "run",
+  },
+  {
+    id: "regular",
+    name: "REGULAR",
+    description: "Play 2 runs",
+    metric: "runs",
+    target: 2,
+    scope: "total",
+  },
+  {
+    id: "collector",
+    name: "COLLECTOR",
+    description: "Collect 4 stars",
+    metric: "stars",
+    target: 4,
+    scope: "total",
+  },
+];
+
+function event(type: GameEvent["type"], data: any = {}): GameEvent {
+  return { type, data, timestamp: 0 };
+}
+
+function playRun(
+  system: AchievementSystem,
+  stars: number,
+  duration: number = 1000,
+): void {
+  system.handleEvent(event("gamestart"));
+  for (let i = 0; i < stars; i++) {
+    system.handleEvent(event("collect", { type: "star", points: 25 }));
+  }
+  system.handleEvent(event("gameover", { score: stars * 25, duration }));
+}
+
+function createSystem(
+  unlocks: AchievementProgress[] = [],
+  persist: boolean = true,
+): AchievementSystem {
+  return new AchievementSystem({
+    definitions: DEFINITIONS,
+    persist,
+    onUnlock: (achievement) => unlocks.push(achievement),
+  });
+}
+
+describe("AchievementSystem", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("unlocks a run achievement as soon as its target is reached", () => {
+    const unlocks: AchievementProgress[] = [];
+    const system = createSystem(unlocks);
+
+    system.handleEvent(event("gamestart"));
+    system.handleEvent(event("collect", { type: "star" }));
+    system.handleEvent(event("collect", { type: "star" }));
+    expect(unlocks).toEqual([]);
+
+    system.handleEvent(event("collect", { type: "star" }));
+    expect(unlocks.map((a) => a.id)).toEqual(["stars"]);
+    expect(unlocks[0].unlocked).toBe(true);
+    expect(unlocks[0].unlockedAt).not.toBeNull();
+  });
+
+  it("does not add up run achievements across runs", () => {
+    const unlocks: AchievementProgress[] = [];
+    const system = createSystem(unlocks);
+
+    playRun(system, 2);
+    playRun(system, 2);
+
+    const ids = unlocks.map((a) => a.id);
+    expect(ids).not.toContain("stars");
+    // ...but running totals do
+    expect(ids).toEqual(["collector", "regular"]);
+  });
+
+  it("checks survival time when the run ends", () => {
+    const unlocks: AchievementProgress[] = [];
+    const system = createSystem(unlocks);
+
+    playRun(system, 0, 59999);
+    expect(unlocks).toEqual([]);
+    playRun(system, 0, 60000);
+    expect(unlocks.map((a) => a.id)).toContain("survivor");
+  });
+
+  it("counts a run once even if gameover repeats", () => {
+    const system = createSystem();
+    playRun(system, 0);
+    system.handleEvent(event("gameover", { score: 0, duration: 0 }));
+
+    const regular = system.getProgress().find((a) => a.id === "regular")!;
+    expect(regular.progress).toBe(1);
+    expect(regular.unlocked).toBe(false);
+  });
+
+  it("reports best-run and total progress capped at the target", () => {
+    const system = createSystem();
+    playRun(system, 2);
+    playRun(system, 1);
+
+    const progress = Object.fromEntries(
+      system.getProgress().map((a) => [a.id, a.progress]),
+    );
+    expect(progress).toEqual({
+      stars: 2,
+      survivor: 1000,
+      regular: 2,
+      collector: 3,
+    });
+  });
+
+  it("keeps unlocks and totals across sessions", () => {
+    playRun(createSystem(), 3);
+    expect(localStorage.getItem(ACHIEVEMENTS_KEY)).not.toBeNull();
+
+    const unlocks: AchievementProgress[] = [];
+    const reloaded = createSystem(unlocks);
+    expect(reloaded.getUnlockedCount()).toBe(1);
+
+    // Already unlocked achievements never fire again
+    playRun(reloaded, 3);
+    expect(unlocks.map((a) => a.id)).toEqual(["collector", "regular"]);
+  });
+
+  it("ignores broken stored data", () => {
+    localStorage.setItem(
+      ACHIEVEMENTS_KEY,
+      JSON.stringify({
+        version: 1,
+        data: { unlocked: { stars: 5 }, totals: { runs: "lots" } },
+      }),
+    );
+
+    const system = createSystem();
+    expect(system.getUnlockedCount()).toBe(0);
+    expect(system.getProgress().find((a) => a.id === "regular")!.progress).toBe(
+      0,
+    );
+  });
+
+  it("can run without saving", () => {
+    playRun(createSystem([], false), 3);
+    expect(localStorage.getItem(ACHIEVEMENTS_KEY)).toBeNull();
+  });
+
+  it("clears unlocks and stats", () => {
+    const system = createSystem();
+    playRun(system, 3);
+    system.clear();
+
+    expect(system.getUnlockedCount()).toBe(0);
+    expect(localStorage.getItem(ACHIEVEMENTS_KEY)).toBeNull();
+  });
+});
+
+describe("GameEngine achievements", () => {
+  let engine: GameEngine;
+
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    engine.destroy();
+  });
+
+  it("emits achievement events from its own event stream", () => {
+    engine = new GameEngine({
+      width: 240,
+      height: 216,
+      targetFPS: 60,
+      gravity: 0.8,
+      jumpPower: -12,
+      gameSpeed: 4,
+      spawnRate: 0,
+      seed: 2,
+      headless: true,
+      audio: {
+        enabled: false,
+        volume: 0,
+        frequencies: {
+          jump: 400,
+          collect: 800,
+          gameOver: 200,
+          background: [100, 150, 200],
+        },
+      },
+      render: {
+        pixelated: true,
+        doubleBuffering: false,
+        showFPS: false,
+        showHitboxes: false,
+      },
+    });
+    engine.initialize();
+    const unlocked: GameEvent[] = [];
+    engine.addEventListener("achievement", (e) => unlocked.push(e));
+
+    engine.start();
+    (engine as any).spawnCollectible("commit", 52, 176);
+    engine.step();
+
+    expect(unlocked.map((e) => e.data.id)).toEqual(["initial-commit"]);
+    const progress = engine.getAchievements();
+    expect(progress.find((a) => a.id === "initial-commit")!.unlocked).toBe(
+      true,
+    );
+    expect(progress.find((a) => a.id === "star-gazer")!.unlocked).toBe(false);
+
+    // Headless runs are simulations - nothing is saved
+    engine.stop();
+    expect(localStorage.getItem(ACHIEVEMENTS_KEY)).toBeNull();
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Combo Tests - Chained collects, near misses and the score multiplier
+ */
+
+import { describe, it, expect, afterEach } from "bun:test";
+import { ComboSystem } from "../../src/game/systems/ComboSystem";
+import { GameEngine } from "../../src/game/GameEngine";
+import type { GameEvent, InputState } from "../../src/game/types/GameTypes";
+
+// Mock DOM environment
+import "../test-setup";
+
+const PLAYER_Y = 176;
+
+function createEngine(): GameEngine {
+  const engine = new GameEngine({
+    width: 240,
+    height: 216,
+    targetFPS: 60,
+    gravity: 0.8,
+    jumpPower: -12,
+    gameSpeed: 4,
+    spawnRate: 0,
+    seed: 9,
+    headless: true,
+    audio: {
+      enabled: false,
+      volume: 0,
+      frequencies: {
+        jump: 400,
+        collect: 800,
+        gameOver: 200,
+        background: [100, 150, 200],
+      },
+    },
+    render: {
+      pixelated: true,
+      doubleBuffering: false,
+      showFPS: false,
+      showHitboxes: false,
+    },
+  });
+  engine.initialize();
+  engine.start();
+  return engine;
+}
+
+function comboEvents(engine: GameEngine): GameEvent[] {
+  const events: GameEvent[] = [];
+  engine.addEventListener("combo", (event) => events.push(event));
+  return events;
+}
+
+describe("ComboSystem", () => {
+  it("raises the multiplier every two hits up to the cap", () => {
+    const combo = new ComboSystem({ maxMultiplier: 3 });
+    const multipliers = Array.from({ length: 7 }, () => combo.hit().multiplier);
+
+    expect(multipliers).toEqual([1, 1, 2, 2, 3, 3, 3]);
+  });
+
+  it("keeps the chain inside the window even on the ground", () => {
+    const combo = new ComboSystem({ window: 1000 });
+    combo.hit();
+
+    expect(combo.update(900, true)).toBe(false);
+    expect(combo.getState().count).toBe(1);
+  });
+
+  it("keeps the chain past the window while airborne", () => {
+    const combo = new ComboSystem({ window: 1000 });
+    combo.hit();
+
+    expect(combo.update(5000, false)).toBe(false);
+    expect(combo.getState().count).toBe(1);
+  });
+
+  it("breaks the chain on landing after the window", () => {
+    const combo = new ComboSystem({ window: 1000 });
+    combo.hit();
+    combo.hit();
+    combo.hit();
+    combo.update(1200, false);
+
+    expect(combo.update(16, true)).toBe(true);
+    expect(combo.getState()).toEqual({ count: 0, multiplier: 1 });
+    // Nothing left to break
+    expect(combo.update(16, true)).toBe(false);
+  });
+
+  it("only counts close passes as near misses", () => {
+    const combo = new ComboSystem({ nearMissDistance: 6 });
+
+    expect(combo.isNearMiss(6)).toBe(true);
+    expect(combo.isNearMiss(7)).toBe(false);
+    expect(combo.isNearMiss(Infinity)).toBe(false);
+  });
+});
+
+describe("GameEngine combos", () => {
+  let engine: GameEngine;
+
+  afterEach(() => {
+    engine.destroy();
+  });
+
+  it("multiplies points for chained collects", () => {
+    engine = createEngine();
+    const events = comboEvents(engine);
+
+    for (let i = 0; i < 3; i++) {
+      (engine as any).spawnCollectible("commit", 52, PLAYER_Y);
+      engine.step();
+    }
+
+    expect(events.map((e) => e.data.points)).toEqual([10, 10, 20]);
+    expect(engine.getScore()).toBe(40);
+    expect(engine.getCombo()).toEqual({ count: 3, multiplier: 2 });
+  });
+
+  it("ends the combo after landing past the window", () => {
+    engine = createEngine();
+    const events = comboEvents(engine);
+    (engine as any).spawnCollectible("commit", 52, PLAYER_Y);
+
+    engine.step(120);
+    expect(events.map((e) => e.data.reason)).toEqual(["collect", "ended"]);
+    expect(engine.getCombo().count).toBe(0);
+  });
+
+  it("awards style points for sliding just under a segfault", () => {
+    engine = createEngine();
+    const events = comboEvents(engine);
+    const ducking: InputState = {
+      left: false,
+      right: false,
+      up: false,
+      down: true,
+      space: false,
+      pause: false,
+    };
+    engine.setInputSource(() => ducking);
+    (engine as any).spawnObstacle("segfault", 120);
+
+    engine.step(40);
+    expect(engine.getGameState().isRunning).toBe(true);
+    expect(events).toHaveLength(1);
+    expect(events[0].data).toMatchObject({ reason: "nearmiss", points: 15 });
+    expect(engine.getGameState().scoreBreakdown.bonuses).toBe(15);
+  });
+
+  it("gives no style points for a wide clearance", () => {
+    engine = createEngine();
+    const events = comboEvents(engine);
+    (engine as any).spawnObstacle("segfault", 200);
+    // Jump so the segfault passes underneath near the top of the arc
+    let frame = 0;
+    engine.setInputSource(() => ({
+      left: false,
+      right: false,
+      up: false,
+      down: false,
+      space: frame++ >= 20 && frame < 40,
+      pause: false,
+    }));
+
+    engine.step(60);
+    expect(engine.getGameState().isRunning).toBe(true);
+    expect(events).toHaveLength(0);
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * Daily Challenge Tests - Date-derived seeds and per-day bests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import {
+  DailyChallenge,
+  DAILY_KEY,
+  formatDailyResult,
+  getDailyKey,
+  getDailySeed,
+} from "../../src/game/daily/DailyChallenge";
+import { GameEngine } from "../../src/game/GameEngine";
+import { ReplayPlayer } from "../../src/game/utils/ReplayPlayer";
+import type { GameEvent } from "../../src/game/types/GameTypes";
+
+// Mock DOM environment
+import "../test-setup";
+
+function createEngine(seed?: number): GameEngine {
+  const engine = new GameEngine({
+    width: 240,
+    height: 216,
+    targetFPS: 60,
+    gravity: 0.8,
+    jumpPower: -12,
+    gameSpeed: 4,
+    spawnRate: 0.05,
+    seed,
+    headless: true,
+    audio: {
+      enabled: false,
+      volume: 0,
+      frequencies: {
+        jump: 400,
+        collect: 800,
+        gameOver: 200,
+        background: [100, 150, 200],
+      },
+    },
+    render: {
+      pixelated: true,
+      doubleBuffering: false,
+      showFPS: false,
+      showHitboxes: false,
+    },
+  });
+  engine.initialize();
+  return engine;
+}
+
+describe("Daily seeds", () => {
+  it("keys days by UTC date", () => {
+    expect(getDailyKey(new Date("2026-03-09T23:59:59Z"))).toBe("2026-03-09");
+    expect(getDailyKey(new Date("2026-03-10T00:00:00Z"))).toBe("2026-03-10");
+    // Late evening west of UTC is already the next day
+    expect(getDailyKey(new Date("2026-03-09T20:00:00-05:00"))).toBe(
+      "2026-03-10",
+    );
+  });
+
+  it("derives a stable seed per day", () => {
+    expect(getDailySeed("2026-03-09")).toBe(getDailySeed("2026-03-09"));
+    expect(getDailySeed("2026-03-09")).not.toBe(getDailySeed("2026-03-10"));
+    expect(Number.isInteger(getDailySeed("2026-03-09"))).toBe(true);
+    expect(getDailySeed("2026-03-09")).toBeGreaterThanOrEqual(0);
+  });
+
+  it("formats a shareable result with the date and score", () => {
+    expect(formatDailyResult("2026-03-09", 420)).toBe(
+      "Code Runner Daily 2026-03-09: 420 pts",
+    );
+  });
+});
+
+describe("DailyChallenge", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("keeps the best score for each day", () => {
+    const daily = new DailyChallenge();
+
+    expect(daily.recordScore("2026-03-09", 100)).toBe(true);
+    expect(daily.recordScore("2026-03-09", 80)).toBe(false);
+    expect(daily.recordScore("2026-03-10", 50)).toBe(true);
+
+    expect(daily.getBest("2026-03-09")).toBe(100);
+    expect(daily.getBest("2026-03-10")).toBe(50);
+    expect(daily.getBest("2026-03-11")).toBeNull();
+  });
+
+  it("keeps daily bests across sessions", () => {
+    new DailyChallenge().recordScore("2026-03-09", 100);
+
+    expect(new DailyChallenge().getBest("2026-03-09")).toBe(100);
+    expect(localStorage.getItem(DAILY_KEY)).not.toBeNull();
+  });
+
+  it("only keeps the most recent 30 days", () => {
+    const daily = new DailyChallenge();
+    for (let day = 1; day <= 31; day++) {
+      daily.recordScore(`2026-01-${String(day).padStart(2, "0")}`, day);
+    }
+
+    expect(daily.getBest("2026-01-01")).toBeNull();
+    expect(daily.getBest("2026-01-02")).toBe(2);
+    expect(daily.getBest("2026-01-31")).toBe(31);
+  });
+
+  it("can run without saving", () => {
+    new DailyChallenge({ persist: false }).recordScore("2026-03-09", 100);
+    expect(localStorage.getItem(DAILY_KEY)).toBeNull();
+  });
+});
+
+describe("GameEngine daily mode", () => {
+  let engine: GameEngine;
+
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    engine.destroy();
+  });
+
+  it("seeds daily runs from today's date, ignoring pinned seeds", () => {
+    engine = createEngine(1234);
+    engine.startDaily();
+
+    const state = engine.getGameState();
+    expect(state.mode).toBe("daily");
+    expect(state.daily).toBe(getDailyKey());
+    expect(state.seed).toBe(getDailySeed(getDailyKey()));
+  });
+
+  it("gives every visitor the same obstacles that day", () => {
+    engine = createEngine(1);
+    const other = createEngine(2);
+    const traces = [engine, other].map((run) => {
+      run.startDaily();
+      run.step(300);
+      return (run as any).obstacles
+        .getActive()
+        .map((o: any) => `${o.obstacleType}@${o.position.x}`);
+    });
+    other.destroy();
+
+    expect(traces[0].length).toBeGreaterThan(0);
+    expect(traces[1]).toEqual(traces[0]);
+  });
+
+  it("plays the same course on every difficulty preset", () => {
+    engine = createEngine(1);
+    const other = createEngine(2);
+    engine.updateSettings({ difficulty: "easy" });
+    other.updateSettings({ difficulty: "hard" });
+
+    const traces = [engine, other].map((run) => {
+      const obstacles = (run as any).obstacles;
+      const spawned = new Set();
+      const spawns: string[] = [];
+      // Hop over whatever comes close so the run lasts
+      run.setInputSource(() => ({
+        left: false,
+        right: false,
+        up: false,
+        down: false,
+        space: obstacles
+          .getActive()
+          .some((o: any) => o.position.x > 50 && o.position.x < 110),
+        pause: false,
+      }));
+      run.startDaily();
+      for (let i = 0; i < 600 && run.step() > 0; i++) {
+        for (const o of obstacles.getActive()) {
+          if (spawned.has(o)) continue;
+          spawned.add(o);
+          spawns.push(`${run.getGameState().frameCount}:${o.obstacleType}`);
+        }
+        // Forget released obstacles so pooled ones count again when reused
+        for (const o of spawned) if (!o.active) spawned.delete(o);
+      }
+      return spawns;
+    });
+    other.destroy();
+
+    expect(traces[0].length).toBeGreaterThan(2);
+    expect(traces[1]).toEqual(traces[0]);
+    // Endless runs still follow the preset
+    engine.restart();
+    expect(engine.getGameConfig().spawnRate).toBeCloseTo(0.0375);
+  });
+
+  it("reports the day's best and share text on game over", () => {
+    engine = createEngine();
+    const gameovers: GameEvent[] = [];
+    engine.addEventListener("gameover", (e) => gameovers.push(e));
+
+    engine.startDaily();
+    engine.step(60);
+    engine.stop();
+
+    const today = getDailyKey();
+    const score = engine.getScore();
+    expect(gameovers[0].data).toMatchObject({
+      mode: "daily",
+      daily: today,
+      dailyBest: score,
+      newDailyBest: true,
+      shareText: formatDailyResult(today, score),
+    });
+    expect(engine.getDailyBest()).toBe(score);
+  });
+
+  it("only plays the daily challenge for the run it starts", () => {
+    engine = createEngine(1234);
+    engine.startDaily();
+    expect(engine.getGameState().mode).toBe("daily");
+    expect(engine.getMode()).toBe("endless");
+
+    engine.restart();
+    const state = engine.getGameState();
+    expect(state.daily).toBeNull();
+    expect(state.seed).toBe(1234);
+    expect(engine.getDailyShareText()).toBeNull();
+  });
+
+  it("stays in daily mode once switched to it", () => {
+    engine = createEngine(1234);
+    engine.setMode("daily");
+    engine.start();
+    engine.restart();
+    expect(engine.getGameState().daily).toBe(getDailyKey());
+  });
+
+  it("replays daily runs on their recorded seed", () => {
+    engine = createEngine();
+    engine.setMode("daily");
+    engine.start();
+    engine.step(60);
+    engine.stop();
+    const replay = engine.getLastReplay()!;
+
+    const player = new ReplayPlayer(replay);
+    player.play(engine);
+    expect(engine.getGameState().seed).toBe(replay.seed);
+    expect(engine.getGameState().mode).toBe("endless");
+
+    player.detach();
+    expect(engine.getMode()).toBe("daily");
+  });
+});
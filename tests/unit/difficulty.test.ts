@@ -0,0 +1,212 @@
+/**
+ * Difficulty Tests - Time/distance based difficulty curve
+ */
+
+import { describe, it, expect, afterEach } from "bun:test";
+import { GameEngine } from "../../src/game/GameEngine";
+import { DifficultySystem } from "../../src/game/systems/DifficultySystem";
+import type { DifficultyConfig } from "../../src/game/types/GameTypes";
+
+// Mock DOM environment
+import "../test-setup";
+
+const BASE = { gameSpeed: 4, spawnRate: 0.02 };
+
+const TUNING: Partial<DifficultyConfig> = {
+  rampTime: 10000,
+  rampDistance: 5000,
+  timeWeight: 0.5,
+  maxGameSpeed: 10,
+  maxSpawnRate: 0.1,
+  obstacleMix: { start: { bug: 1, error: 0 }, end: { bug: 0, error: 1 } },
+  minObstacleGap: { start: 200, end: 100 },
+};
+
+function createEngine(
+  difficulty?: Partial<DifficultyConfig>,
+  spawnRate: number = 0.02,
+): GameEngine {
+  const engine = new GameEngine({
+    width: 240,
+    height: 216,
+    targetFPS: 60,
+    gravity: 0.8,
+    jumpPower: -12,
+    gameSpeed: 4,
+    spawnRate,
+    difficulty,
+    seed: 3,
+    headless: true,
+    audio: {
+      enabled: false,
+      volume: 0,
+      frequencies: {
+        jump: 400,
+        collect: 800,
+        gameOver: 200,
+        background: [100, 150, 200],
+      },
+    },
+    render: {
+      pixelated: true,
+      doubleBuffering: false,
+      showFPS: false,
+      showHitboxes: false,
+    },
+  });
+  engine.initialize();
+  return engine;
+}
+
+describe("DifficultySystem", () => {
+  it("starts at the base config values", () => {
+    const system = new DifficultySystem(BASE, TUNING);
+    const state = system.evaluate(0, 0);
+
+    expect(state.level).toBe(0);
+    expect(state.gameSpeed).toBe(4);
+    expect(state.spawnRate).toBe(0.02);
+    expect(state.minObstacleGap).toBe(200);
+    expect(state.obstacleWeights).toEqual({ bug: 1, error: 0 });
+  });
+
+  it("reaches full difficulty at the end of both ramps", () => {
+    const system = new DifficultySystem(BASE, TUNING);
+    const state = system.evaluate(10000, 5000);
+
+    expect(state.level).toBe(1);
+    expect(state.gameSpeed).toBe(10);
+    expect(state.spawnRate).toBe(0.1);
+    expect(state.minObstacleGap).toBe(100);
+    expect(state.obstacleWeights).toEqual({ bug: 0, error: 1 });
+  });
+
+  it("blends time and distance by timeWeight", () => {
+    const system = new DifficultySystem(BASE, TUNING);
+
+    expect(system.getLevel(10000, 0)).toBe(0.5);
+    expect(system.getLevel(0, 5000)).toBe(0.5);
+    expect(system.getLevel(5000, 2500)).toBe(0.5);
+  });
+
+  it("clamps beyond the ramp", () => {
+    const system = new DifficultySystem(BASE, TUNING);
+    expect(system.evaluate(1e9, 1e9).gameSpeed).toBe(10);
+  });
+
+  it("fills in defaults from the base config", () => {
+    const system = new DifficultySystem(BASE);
+    const config = system.getConfig();
+
+    expect(config.maxSpawnRate).toBe(0.04);
+    expect(config.maxGameSpeed).toBe(12);
+  });
+});
+
+describe("GameEngine difficulty curve", () => {
+  const engines: GameEngine[] = [];
+
+  afterEach(() => {
+    engines.splice(0).forEach((engine) => engine.destroy());
+  });
+
+  it("speeds up with play time regardless of score", () => {
+    // No obstacles so the run lasts as long as we like
+    const engine = createEngine({ ...TUNING, maxSpawnRate: 0 }, 0);
+    engines.push(engine);
+
+    engine.start();
+    engine.step(60);
+    const early = engine.getGameState();
+    engine.step(240);
+    const later = engine.getGameState();
+
+    // Only distance has scored - nothing was collected
+    expect(later.scoreBreakdown.collectibles).toBe(0);
+    expect(later.scoreBreakdown.bonuses).toBe(0);
+    expect(later.gameSpeed).toBeGreaterThan(early.gameSpeed);
+    expect(later.difficulty.level).toBeGreaterThan(early.difficulty.level);
+  });
+
+  it("reports elapsed time, distance and difficulty in the game state", () => {
+    const engine = createEngine(TUNING);
+    engines.push(engine);
+
+    engine.start();
+    engine.step(30);
+    const state = engine.getGameState();
+
+    expect(state.elapsedTime).toBeCloseTo(500, 5);
+    expect(state.distance).toBeGreaterThan(30 * 4 - 1);
+    expect(state.difficulty.gameSpeed).toBe(state.gameSpeed);
+  });
+
+  it("no longer depends on landing on exact score multiples", () => {
+    const engine = createEngine(TUNING);
+    engines.push(engine);
+
+    engine.start();
+    engine.setScore(50);
+    engine.step(1);
+
+    // The old rule bumped speed by 0.5 on every multiple-of-50 step
+    expect(engine.getGameState().gameSpeed).toBeLessThan(4.5);
+  });
+
+  it("keeps randomly spawned obstacles at least the minimum gap apart", () => {
+    // Spawn whenever allowed and keep the player out of the way
+    const engine = createEngine(
+      { ...TUNING, maxSpawnRate: 1, minObstacleGap: { start: 80, end: 80 } },
+      1,
+    );
+    engines.push(engine);
+    const raw = engine as any;
+    raw.checkCollisions = () => {};
+
+    // Slow enough for the jump-arc gap to fit two obstacles on screen
+    engine.start();
+    engine.setGameSpeed(4);
+    for (let i = 0; i < 300; i++) {
+      engine.step();
+      const xs = raw.obstacles
+        .getActive()
+        .map((o: any) => o.position.x)
+        .sort((a: number, b: number) => a - b);
+      for (let j = 1; j < xs.length; j++) {
+        expect(xs[j] - (xs[j - 1] + 16)).toBeGreaterThanOrEqual(80 - 1e-9);
+      }
+    }
+    expect(raw.obstacles.getActive().length).toBeGreaterThan(1);
+  });
+
+  it("shifts the obstacle mix as difficulty rises", () => {
+    const engine = createEngine({ ...TUNING, rampTime: 1, rampDistance: 1 });
+    engines.push(engine);
+    const raw = engine as any;
+    raw.checkCollisions = () => {};
+
+    const types = new Set<string>();
+    engine.start();
+    for (let i = 0; i < 600; i++) {
+      engine.step();
+      raw.obstacles.getActive().forEach((o: any) => types.add(o.obstacleType));
+    }
+
+    expect(types.has("error")).toBe(true);
+    expect(types.has("bug")).toBe(false);
+  });
+
+  it("lets setGameSpeed pin the speed until the next run", () => {
+    const engine = createEngine(TUNING);
+    engines.push(engine);
+
+    engine.start();
+    engine.setGameSpeed(7);
+    engine.step(120);
+    expect(engine.getGameState().gameSpeed).toBe(7);
+
+    engine.restart();
+    engine.step(1);
+    expect(engine.getGameState().gameSpeed).toBeLessThan(7);
+  });
+});
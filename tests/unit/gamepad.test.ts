@@ -0,0 +1,204 @@
+/**
+ * Gamepad Tests - Controller polling through a navigator.getGamepads stand-in
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { InputHandler } from "../../src/game/utils/InputHandler";
+import {
+  applyDeadzone,
+  GAMEPAD_BUTTONS,
+  readGamepad,
+} from "../../src/game/utils/Gamepad";
+import { GameEngine } from "../../src/game/GameEngine";
+import type { GameEvent, GamepadLike } from "../../src/game/types/GameTypes";
+
+// Mock DOM environment
+import "../test-setup";
+
+/**
+ * Standard-layout pad with the given buttons held
+ */
+function createPad(
+  pressed: number[] = [],
+  axes: number[] = [0, 0, 0, 0],
+  index = 0,
+): GamepadLike {
+  return {
+    index,
+    id: `Test Pad ${index}`,
+    connected: true,
+    buttons: Array.from({ length: 17 }, (_, button) => ({
+      pressed: pressed.includes(button),
+      value: pressed.includes(button) ? 1 : 0,
+    })),
+    axes,
+  };
+}
+
+describe("Gamepad mapping", () => {
+  it("maps the D-pad, face buttons and Start", () => {
+    expect(
+      readGamepad(createPad([GAMEPAD_BUTTONS.a, GAMEPAD_BUTTONS.left])),
+    ).toEqual({
+      left: true,
+      right: false,
+      up: false,
+      down: false,
+      space: true,
+      pause: false,
+    });
+    expect(readGamepad(createPad([GAMEPAD_BUTTONS.b])).down).toBe(true);
+    expect(readGamepad(createPad([GAMEPAD_BUTTONS.start])).pause).toBe(true);
+  });
+
+  it("ignores stick drift inside the deadzone", () => {
+    expect(applyDeadzone(0.2, 0.25)).toBe(0);
+    expect(applyDeadzone(-1, 0.25)).toBe(-1);
+    expect(applyDeadzone(0.625, 0.25)).toBeCloseTo(0.5);
+
+    expect(readGamepad(createPad([], [0.2, 0.3])).down).toBe(false);
+    expect(readGamepad(createPad([], [-0.9, 0.8]))).toMatchObject({
+      left: true,
+      down: true,
+    });
+    // A wider deadzone swallows the same push
+    expect(readGamepad(createPad([], [0.7, 0]), 0.5).right).toBe(false);
+  });
+});
+
+describe("InputHandler gamepads", () => {
+  let pads: (GamepadLike | null)[];
+  let input: InputHandler;
+
+  beforeEach(() => {
+    pads = [];
+    input = new InputHandler({ persist: false, getGamepads: () => pads });
+  });
+
+  it("merges held buttons into the input state", () => {
+    pads = [createPad([GAMEPAD_BUTTONS.a, GAMEPAD_BUTTONS.right])];
+    input.pollGamepads();
+
+    expect(input.getInputState()).toMatchObject({ space: true, right: true });
+
+    pads = [createPad()];
+    input.pollGamepads();
+    expect(input.isPressed("space")).toBe(false);
+  });
+
+  it("fires jump once per press", () => {
+    const jumps: number[] = [];
+    input.onCallback("jump", () => jumps.push(1));
+
+    pads = [createPad([GAMEPAD_BUTTONS.a])];
+    input.pollGamepads();
+    input.pollGamepads();
+    pads = [createPad()];
+    input.pollGamepads();
+    pads = [createPad([GAMEPAD_BUTTONS.a])];
+    input.pollGamepads();
+
+    expect(jumps).toHaveLength(2);
+  });
+
+  it("reports Start presses rather than holding pause", () => {
+    pads = [createPad([GAMEPAD_BUTTONS.start])];
+    expect(input.pollGamepads()).toBe(true);
+    expect(input.pollGamepads()).toBe(false);
+    expect(input.getInputState().pause).toBe(false);
+  });
+
+  it("reports pads connecting and disconnecting", () => {
+    const changes: string[] = [];
+    input.setGamepadCallback((pad, connected) =>
+      changes.push(`${pad.id}:${connected}`),
+    );
+
+    pads = [createPad(), createPad([], undefined, 1)];
+    input.pollGamepads();
+    expect(input.getConnectedGamepads()).toHaveLength(2);
+
+    pads = [null, createPad([], undefined, 1)];
+    input.pollGamepads();
+
+    expect(changes).toEqual([
+      "Test Pad 0:true",
+      "Test Pad 1:true",
+      "Test Pad 0:false",
+    ]);
+    expect(input.getConnectedGamepads()).toEqual([
+      { index: 1, id: "Test Pad 1" },
+    ]);
+  });
+});
+
+describe("GameEngine gamepads", () => {
+  let engine: GameEngine;
+  let pads: (GamepadLike | null)[];
+  const originalGetGamepads = (navigator as any).getGamepads;
+
+  beforeEach(() => {
+    pads = [];
+    (navigator as any).getGamepads = () => pads;
+    engine = new GameEngine({
+      width: 240,
+      height: 216,
+      targetFPS: 60,
+      gravity: 0.8,
+      jumpPower: -12,
+      gameSpeed: 4,
+      spawnRate: 0,
+      seed: 22,
+      headless: true,
+      audio: {
+        enabled: false,
+        volume: 0,
+        frequencies: {
+          jump: 400,
+          collect: 800,
+          gameOver: 200,
+          background: [100, 150, 200],
+        },
+      },
+      render: {
+        pixelated: true,
+        doubleBuffering: false,
+        showFPS: false,
+        showHitboxes: false,
+      },
+    });
+    engine.initialize();
+  });
+
+  afterEach(() => {
+    engine.destroy();
+    (navigator as any).getGamepads = originalGetGamepads;
+  });
+
+  it("polls the pad every fixed step", () => {
+    const events: GameEvent[] = [];
+    engine.addEventListener("gamepadconnected", (e) => events.push(e));
+    engine.addEventListener("jump", (e) => events.push(e));
+    engine.start();
+
+    pads = [createPad([GAMEPAD_BUTTONS.a])];
+    engine.step(2);
+
+    expect(events.map((e) => e.type)).toEqual(["gamepadconnected", "jump"]);
+    expect(events[0].data).toEqual({ index: 0, id: "Test Pad 0" });
+  });
+
+  it("toggles pause with Start, even while paused", () => {
+    engine.start();
+
+    pads = [createPad([GAMEPAD_BUTTONS.start])];
+    engine.step();
+    expect(engine.isPaused()).toBe(true);
+
+    pads = [createPad()];
+    engine.step();
+    pads = [createPad([GAMEPAD_BUTTONS.start])];
+    engine.step();
+    expect(engine.isPaused()).toBe(false);
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * Ghost Tests - Racing a replay of the best run
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { GhostRunner, GHOST_KEY } from "../../src/game/systems/GhostRunner";
+import { GameEngine } from "../../src/game/GameEngine";
+import { ReplayRecorder } from "../../src/game/utils/ReplayRecorder";
+import type {
+  GameConfig,
+  InputState,
+  PlayerConfig,
+  ReplayData,
+} from "../../src/game/types/GameTypes";
+
+// Mock DOM environment
+import "../test-setup";
+
+const CONFIG: GameConfig = {
+  width: 240,
+  height: 216,
+  targetFPS: 60,
+  gravity: 0.8,
+  jumpPower: -12,
+  gameSpeed: 4,
+  spawnRate: 0,
+};
+
+const PLAYER: PlayerConfig = {
+  position: { x: 50, y: 176 },
+  size: { width: 20, height: 20 },
+  jumpPower: -12,
+  gravity: 0.8,
+  groundY: 176,
+};
+
+function input(space: boolean = false): InputState {
+  return {
+    left: false,
+    right: false,
+    up: false,
+    down: false,
+    space,
+    pause: false,
+  };
+}
+
+function recordRun(seed: number, score: number, frames: number): ReplayData {
+  const recorder = new ReplayRecorder();
+  recorder.start(seed, CONFIG);
+  for (let i = 0; i < frames; i++) recorder.record(input(i < 10));
+  return recorder.stop(score);
+}
+
+function createEngine(): GameEngine {
+  const engine = new GameEngine({
+    ...CONFIG,
+    seed: 17,
+    headless: true,
+    audio: {
+      enabled: false,
+      volume: 0,
+      frequencies: {
+        jump: 400,
+        collect: 800,
+        gameOver: 200,
+        background: [100, 150, 200],
+      },
+    },
+    render: {
+      pixelated: true,
+      doubleBuffering: false,
+      showFPS: false,
+      showHitboxes: false,
+    },
+  });
+  engine.initialize();
+  return engine;
+}
+
+describe("GhostRunner", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("only keeps a run that beats the best score", () => {
+    const ghost = new GhostRunner();
+
+    expect(ghost.record(recordRun(1, 100, 60))).toBe(true);
+    expect(ghost.record(recordRun(2, 100, 60))).toBe(false);
+    expect(ghost.record(recordRun(3, 150, 60))).toBe(true);
+    expect(ghost.getBest()!.seed).toBe(3);
+  });
+
+  it("keeps the best run across sessions", () => {
+    new GhostRunner().record(recordRun(5, 100, 60));
+
+    const best = new GhostRunner().getBest();
+    expect(best!.seed).toBe(5);
+    expect(best!.frames).toBe(60);
+  });
+
+  it("ignores broken stored runs", () => {
+    localStorage.setItem(
+      GHOST_KEY,
+      JSON.stringify({ version: 1, data: { seed: "x", inputs: 3 } }),
+    );
+
+    expect(new GhostRunner().getBest()).toBeNull();
+  });
+
+  it("only races runs on the same seed and config", () => {
+    const ghost = new GhostRunner({ persist: false });
+    ghost.record(recordRun(5, 100, 60));
+
+    ghost.start(6, CONFIG, PLAYER);
+    expect(ghost.isRacing()).toBe(false);
+
+    ghost.start(5, { ...CONFIG, gravity: 1 }, PLAYER);
+    expect(ghost.isRacing()).toBe(false);
+
+    ghost.start(5, CONFIG, PLAYER);
+    expect(ghost.isRacing()).toBe(true);
+  });
+
+  it("disappears on the frame the best run ended", () => {
+    const ghost = new GhostRunner({ persist: false });
+    ghost.record(recordRun(5, 100, 30));
+    ghost.start(5, CONFIG, PLAYER);
+
+    for (let i = 0; i < 30; i++) ghost.update(1000 / 60, 4);
+    expect(ghost.isRacing()).toBe(true);
+
+    ghost.update(1000 / 60, 4);
+    expect(ghost.isRacing()).toBe(false);
+  });
+});
+
+describe("GameEngine ghost", () => {
+  let engine: GameEngine;
+
+  beforeEach(() => {
+    localStorage.clear();
+    engine = createEngine();
+  });
+
+  afterEach(() => {
+    engine.destroy();
+  });
+
+  it("retraces the best run exactly", () => {
+    // Best run: two jumps, traced frame by frame
+    let frame = 0;
+    engine.setInputSource(() => {
+      const f = frame++;
+      return input(f < 5 || (f >= 50 && f < 70));
+    });
+    engine.start();
+    const bestTrace: number[] = [];
+    for (let i = 0; i < 90; i++) {
+      engine.step();
+      bestTrace.push((engine as any).player.position.y);
+    }
+    engine.stop();
+    expect(engine.getBestRun()!.frames).toBe(90);
+
+    // Race it standing still - the ghost jumps where the best run did
+    engine.setInputSource(() => input());
+    expect(engine.raceGhost()).toBe(true);
+    expect(engine.isRacingGhost()).toBe(true);
+
+    const ghostTrace: number[] = [];
+    for (let i = 0; i < 90; i++) {
+      engine.step();
+      ghostTrace.push((engine as any).ghost.getGhost().position.y);
+    }
+    expect(ghostTrace).toEqual(bestTrace);
+    expect(Math.min(...ghostTrace)).toBeLessThan(176);
+
+    engine.step();
+    expect(engine.isRacingGhost()).toBe(false);
+  });
+
+  it("has no ghost to race before a run is finished", () => {
+    expect(engine.getBestRun()).toBeNull();
+    expect(engine.raceGhost()).toBe(false);
+  });
+
+  it("only races the ghost's course for one run", () => {
+    engine.start();
+    engine.step(30);
+    engine.stop();
+
+    engine.setSeed(null);
+    engine.raceGhost();
+    expect(engine.getSeed()).toBe(17);
+    expect(engine.getPinnedSeed()).toBeNull();
+
+    // Starting again picks a fresh course
+    engine.restart();
+    expect(engine.getSeed()).not.toBe(17);
+    expect(engine.isRacingGhost()).toBe(false);
+  });
+
+  it("races the ghost on its own tuning, whatever the preset", () => {
+    engine.start();
+    engine.step(30);
+    engine.stop();
+    const { difficulty } = engine.getBestRun()!.config;
+
+    engine.updateSettings({ difficulty: "hard" });
+    engine.raceGhost();
+    expect(engine.isRacingGhost()).toBe(true);
+    expect(engine.getGameConfig().difficulty).toEqual(difficulty);
+
+    engine.restart();
+    expect(engine.getGameConfig().difficulty!.maxGameSpeed).toBe(14);
+  });
+
+  it("does not race the ghost on other seeds", () => {
+    engine.start();
+    engine.step(30);
+    engine.stop();
+
+    engine.setSeed(99);
+    engine.start();
+    expect(engine.isRacingGhost()).toBe(false);
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Headless Mode Tests - Running the engine without a canvas or rAF loop
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { GameEngine } from "../../src/game/GameEngine";
+import { ReplayPlayer } from "../../src/game/utils/ReplayPlayer";
+
+// Mock DOM environment
+import "../test-setup";
+
+function createHeadlessEngine(seed?: number): GameEngine {
+  const engine = new GameEngine({
+    width: 240,
+    height: 216,
+    targetFPS: 60,
+    gravity: 0.8,
+    jumpPower: -12,
+    gameSpeed: 4,
+    spawnRate: 0.02,
+    seed,
+    audio: {
+      enabled: false,
+      volume: 0,
+      frequencies: {
+        jump: 400,
+        collect: 800,
+        gameOver: 200,
+        background: [100, 150, 200],
+      },
+    },
+    render: {
+      pixelated: true,
+      doubleBuffering: true,
+      showFPS: false,
+      showHitboxes: false,
+    },
+  });
+  engine.initialize();
+  return engine;
+}
+
+describe("GameEngine headless mode", () => {
+  let engine: GameEngine;
+
+  beforeEach(() => {
+    localStorage.clear();
+    engine = createHeadlessEngine(1);
+  });
+
+  afterEach(() => {
+    engine.destroy();
+  });
+
+  it("runs without a canvas", () => {
+    expect(engine.isHeadless()).toBe(true);
+
+    engine.start();
+    expect(engine.isPlaying()).toBe(true);
+    expect((engine as any).animationId).toBeNull();
+  });
+
+  it("advances fixed steps manually with step()", () => {
+    engine.start();
+
+    expect(engine.step()).toBe(1);
+    expect(engine.step(9)).toBe(9);
+    expect(engine.getGameState().frameCount).toBe(10);
+  });
+
+  it("does nothing before the game starts", () => {
+    expect(engine.step(5)).toBe(0);
+    expect(engine.getGameState().frameCount).toBe(0);
+  });
+
+  it("stops stepping at game over", () => {
+    engine.start();
+
+    // With no input the player eventually runs into an obstacle
+    const stepped = engine.step(100000);
+    expect(stepped).toBeLessThan(100000);
+    expect(engine.getGameState().isRunning).toBe(false);
+    expect(engine.getGameState().frameCount).toBe(stepped);
+  });
+
+  it("does not advance while paused", () => {
+    engine.start();
+    engine.step(5);
+    engine.pause();
+    engine.step(5);
+
+    expect(engine.getGameState().frameCount).toBe(5);
+  });
+
+  it("leaves the saved high score alone", () => {
+    engine.start();
+    engine.setScore(500);
+    engine.stop();
+
+    expect(engine.getHighScore()).toBe(0);
+  });
+
+  it("simulates thousands of frames quickly", () => {
+    const startTime = performance.now();
+    let frames = 0;
+
+    for (let seed = 0; seed < 20; seed++) {
+      const sim = createHeadlessEngine(seed);
+      sim.start();
+      frames += sim.step(2000);
+      sim.destroy();
+    }
+
+    expect(frames).toBeGreaterThan(1000);
+    expect(performance.now() - startTime).toBeLessThan(5000);
+  });
+
+  it("verifies a replay by simulating it", () => {
+    let frame = 0;
+    engine.setInputSource(() => {
+      frame++;
+      return {
+        left: false,
+        right: false,
+        up: false,
+        down: false,
+        space: frame % 40 < 2,
+        pause: false,
+      };
+    });
+    engine.start();
+    engine.step(3000);
+    if (engine.getGameState().isRunning) engine.stop();
+
+    const replay = engine.getLastReplay()!;
+    const verifier = createHeadlessEngine();
+    const result = new ReplayPlayer(replay).simulate(verifier);
+
+    expect(result!.frameCount).toBe(replay.frames);
+    expect(result!.score).toBe(replay.score);
+    verifier.destroy();
+  });
+});
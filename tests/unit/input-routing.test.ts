@@ -0,0 +1,181 @@
+/**
+ * Input Routing Tests - One path from input to the engine, scoped to the game
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { InputHandler } from "../../src/game/utils/InputHandler";
+import { GameEngine } from "../../src/game/GameEngine";
+
+// Mock DOM environment
+import { installMockEventTargets } from "../test-setup";
+
+beforeEach(() => {
+  installMockEventTargets();
+});
+
+/**
+ * Send a key event through the listeners on window. Returns whether the
+ * page's default action (scrolling, activating a button) was prevented.
+ */
+function sendKey(
+  type: "keydown" | "keyup",
+  code: string,
+  target: unknown = null,
+): boolean {
+  let prevented = false;
+  const event = {
+    type,
+    code,
+    target,
+    repeat: false,
+    preventDefault: () => {
+      prevented = true;
+    },
+  } as unknown as KeyboardEvent;
+  window.dispatchEvent(event);
+  return prevented;
+}
+
+function sendMouseDown(target: unknown): void {
+  window.dispatchEvent({
+    type: "mousedown",
+    button: 0,
+    target,
+  } as unknown as MouseEvent);
+}
+
+/**
+ * Click somewhere on the page, as seen by capture listeners on document
+ */
+function sendPointerDown(target: unknown): void {
+  document.dispatchEvent({ type: "pointerdown", target } as unknown as Event);
+}
+
+/**
+ * Element stand-in that contains the nodes given to it
+ */
+function createScope(...children: unknown[]) {
+  return {
+    contains: (node: unknown) => children.includes(node),
+  } as unknown as HTMLElement;
+}
+
+describe("GameEngine pause routing", () => {
+  let engine: GameEngine;
+
+  afterEach(() => {
+    engine.destroy();
+  });
+
+  it("toggles pause exactly once per P press", () => {
+    localStorage.clear();
+    engine = new GameEngine({
+      width: 240,
+      height: 216,
+      targetFPS: 60,
+      gravity: 0.8,
+      jumpPower: -12,
+      gameSpeed: 4,
+      spawnRate: 0,
+      canvas: document.createElement("canvas") as HTMLCanvasElement,
+      audio: {
+        enabled: false,
+        volume: 0,
+        frequencies: {
+          jump: 400,
+          collect: 800,
+          gameOver: 200,
+          background: [100, 150, 200],
+        },
+      },
+      render: {
+        pixelated: true,
+        doubleBuffering: false,
+        showFPS: false,
+        showHitboxes: false,
+      },
+    });
+    engine.initialize();
+    engine.start();
+
+    sendKey("keydown", "KeyP");
+    engine.step(5);
+    expect(engine.isPaused()).toBe(true);
+
+    sendKey("keyup", "KeyP");
+    sendKey("keydown", "KeyP");
+    engine.step(5);
+    expect(engine.isPaused()).toBe(false);
+  });
+});
+
+describe("InputHandler focus scope", () => {
+  const inside = { tagName: "CANVAS" };
+  const outside = { tagName: "BUTTON" };
+  let input: InputHandler;
+
+  beforeEach(() => {
+    input = new InputHandler({ persist: false });
+    input.initialize();
+    input.setFocusScope(createScope(inside));
+  });
+
+  afterEach(() => {
+    input.destroy();
+  });
+
+  it("leaves keys alone until the player is in the game", () => {
+    const prevented = sendKey("keydown", "Space", outside);
+
+    expect(input.isScopeEngaged()).toBe(false);
+    expect(input.isPressed("space")).toBe(false);
+    // Space still scrolls the page, or activates a focused button
+    expect(prevented).toBe(false);
+  });
+
+  it("takes keys once the player clicks or focuses the game", () => {
+    sendPointerDown(inside);
+    expect(sendKey("keydown", "Space", outside)).toBe(true);
+
+    expect(input.isPressed("space")).toBe(true);
+  });
+
+  it("lets go when the player moves elsewhere on the page", () => {
+    sendPointerDown(inside);
+    sendKey("keydown", "ArrowLeft");
+    sendPointerDown(outside);
+
+    sendKey("keydown", "Space");
+    expect(input.isPressed("space")).toBe(false);
+
+    // Releases still land, so held keys can't get stuck
+    sendKey("keyup", "ArrowLeft");
+    expect(input.isPressed("left")).toBe(false);
+  });
+
+  it("doesn't jump on clicks on the game's buttons", () => {
+    const button = {
+      tagName: "BUTTON",
+      closest: (): unknown => button,
+    };
+    // e.g. an icon inside the button
+    const label = { tagName: "SPAN", closest: () => button };
+    const canvas = { tagName: "CANVAS", closest: () => null };
+    input.setFocusScope(createScope(button, label, canvas));
+
+    for (const target of [button, label]) {
+      sendMouseDown(target);
+      expect(input.isPressed("space")).toBe(false);
+    }
+
+    sendMouseDown(canvas);
+    expect(input.isPressed("space")).toBe(true);
+  });
+
+  it("reacts everywhere without a scope", () => {
+    input.setFocusScope(null);
+    sendKey("keydown", "Space", outside);
+
+    expect(input.isPressed("space")).toBe(true);
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Key Binding Tests - Remappable keyboard controls in InputHandler
+ */
+
+import { describe, it, expect, beforeEach } from "bun:test";
+import { InputHandler } from "../../src/game/utils/InputHandler";
+import {
+  DEFAULT_KEY_BINDINGS,
+  formatKeyCode,
+  KEY_BINDINGS_KEY,
+  sanitizeKeyBindings,
+} from "../../src/game/settings/KeyBindings";
+
+// Mock DOM environment
+import "../test-setup";
+
+function keyEvent(code: string, extra: Record<string, unknown> = {}) {
+  return {
+    code,
+    target: null,
+    repeat: false,
+    preventDefault: () => {},
+    stopPropagation: () => {},
+    ...extra,
+  } as unknown as KeyboardEvent;
+}
+
+function press(input: InputHandler, code: string) {
+  (input as any).handleKeyDown(keyEvent(code));
+}
+
+function release(input: InputHandler, code: string) {
+  (input as any).handleKeyUp(keyEvent(code));
+}
+
+describe("Key bindings", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("maps the default keys to actions", () => {
+    const input = new InputHandler({ persist: false });
+
+    press(input, "KeyJ");
+    expect(input.isPressed("space")).toBe(true);
+    release(input, "KeyJ");
+    expect(input.isPressed("space")).toBe(false);
+
+    press(input, "ArrowDown");
+    expect(input.isPressed("down")).toBe(true);
+    press(input, "KeyQ");
+    expect(input.getKeyAction("KeyQ")).toBeNull();
+  });
+
+  it("toggles pause and jumps once per press, not per auto-repeat", () => {
+    const input = new InputHandler({ persist: false });
+    const fired: string[] = [];
+    input.onCallback("pause", () => fired.push("pause"));
+    input.onCallback("jump", () => fired.push("jump"));
+
+    press(input, "KeyP");
+    (input as any).handleKeyDown(keyEvent("KeyP", { repeat: true }));
+    (input as any).handleKeyDown(keyEvent("KeyP", { repeat: true }));
+    expect(input.isPaused()).toBe(true);
+
+    press(input, "Space");
+    (input as any).handleKeyDown(keyEvent("Space", { repeat: true }));
+    expect(input.isPressed("space")).toBe(true);
+    expect(fired).toEqual(["pause", "jump"]);
+  });
+
+  it("supports several keys per action", () => {
+    const input = new InputHandler({ persist: false });
+    const result = input.bindKey("space", "KeyK");
+
+    expect(result).toEqual({
+      action: "space",
+      code: "KeyK",
+      bound: true,
+      conflict: null,
+    });
+    expect(input.getBindings().space).toEqual(["Space", "KeyJ", "KeyK"]);
+
+    press(input, "KeyK");
+    expect(input.isPressed("space")).toBe(true);
+  });
+
+  it("reports conflicts instead of stealing keys", () => {
+    const input = new InputHandler({ persist: false });
+
+    const result = input.bindKey("space", "KeyP");
+    expect(result.bound).toBe(false);
+    expect(result.conflict).toBe("pause");
+    expect(input.getKeyAction("KeyP")).toBe("pause");
+
+    // Forcing moves the key over
+    const forced = input.bindKey("space", "KeyP", true);
+    expect(forced).toMatchObject({ bound: true, conflict: "pause" });
+    expect(input.getBindings().pause).toEqual(["Escape"]);
+
+    // ...but never takes an action's last key
+    expect(input.bindKey("space", "Escape", true).bound).toBe(false);
+  });
+
+  it("keeps at least one key per action", () => {
+    const input = new InputHandler({ persist: false });
+
+    expect(input.unbindKey("KeyJ")).toBe(true);
+    expect(input.unbindKey("Space")).toBe(false);
+    expect(input.getBindings().space).toEqual(["Space"]);
+  });
+
+  it("saves bindings and resets to defaults", () => {
+    const input = new InputHandler();
+    input.bindKey("left", "KeyZ");
+
+    expect(new InputHandler().getBindings().left).toEqual([
+      "ArrowLeft",
+      "KeyA",
+      "KeyZ",
+    ]);
+
+    input.resetBindings();
+    expect(input.getBindings()).toEqual(DEFAULT_KEY_BINDINGS);
+    expect(localStorage.getItem(KEY_BINDINGS_KEY)).toBeNull();
+  });
+
+  it("doesn't save in-memory bindings", () => {
+    new InputHandler({ persist: false }).bindKey("left", "KeyZ");
+    expect(localStorage.getItem(KEY_BINDINGS_KEY)).toBeNull();
+  });
+
+  it("binds the next key pressed while capturing", async () => {
+    const input = new InputHandler({ persist: false });
+    const jumps: number[] = [];
+    input.onCallback("jump", () => jumps.push(1));
+
+    const capture = input.captureBinding("space");
+    expect(input.isCapturing()).toBe(true);
+
+    // The key goes to the binding, not the game
+    press(input, "KeyJ");
+    (input as any).handleCaptureKey(keyEvent("KeyH"));
+
+    expect(await capture).toMatchObject({ code: "KeyH", bound: true });
+    expect(input.isCapturing()).toBe(false);
+    expect(jumps).toHaveLength(0);
+    expect(input.getKeyAction("KeyH")).toBe("space");
+  });
+
+  it("cancels capture with Escape", async () => {
+    const input = new InputHandler({ persist: false });
+    const capture = input.captureBinding("space");
+
+    (input as any).handleCaptureKey(keyEvent("Escape"));
+
+    expect(await capture).toBeNull();
+    expect(input.getKeyAction("Escape")).toBe("pause");
+  });
+
+  it("drops invalid and duplicate stored keys", () => {
+    const bindings = sanitizeKeyBindings({
+      left: ["KeyJ", 4, ""],
+      space: ["KeyJ"],
+      pause: "KeyP",
+    });
+
+    expect(bindings.left).toEqual(["KeyJ"]);
+    // Jump lost its only key to left, so gets whatever defaults are free
+    expect(bindings.space).toEqual(["Space"]);
+    expect(bindings.pause).toEqual(DEFAULT_KEY_BINDINGS.pause);
+  });
+
+  it("labels keys for display", () => {
+    expect(formatKeyCode("KeyJ")).toBe("J");
+    expect(formatKeyCode("Digit1")).toBe("1");
+    expect(formatKeyCode("ArrowDown")).toBe("↓");
+    expect(formatKeyCode("Semicolon")).toBe("Semicolon");
+  });
+});
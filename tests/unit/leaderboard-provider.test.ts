@@ -0,0 +1,322 @@
+/**
+ * Leaderboard Provider Tests - Local and HTTP providers behind one interface
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { LocalLeaderboard } from "../../src/game/leaderboard/LocalLeaderboard";
+import { LocalLeaderboardProvider } from "../../src/game/leaderboard/LocalLeaderboardProvider";
+import { HttpLeaderboardProvider } from "../../src/game/leaderboard/HttpLeaderboardProvider";
+import { GameEngine } from "../../src/game/GameEngine";
+import { ReplayPlayer } from "../../src/game/utils/ReplayPlayer";
+import type {
+  LeaderboardEntry,
+  LeaderboardSubmission,
+} from "../../src/game/types/GameTypes";
+import {
+  startMockLeaderboardServer,
+  type MockLeaderboardServer,
+} from "../mocks/leaderboard-server";
+
+// Mock DOM environment
+import "../test-setup";
+
+const AUDIO = {
+  enabled: false,
+  volume: 0,
+  frequencies: {
+    jump: 400,
+    collect: 800,
+    gameOver: 200,
+    background: [100, 150, 200],
+  },
+};
+
+const RENDER = {
+  pixelated: true,
+  doubleBuffering: false,
+  showFPS: false,
+  showHitboxes: false,
+};
+
+function createEngine(headless: boolean): GameEngine {
+  const engine = new GameEngine({
+    width: 240,
+    height: 216,
+    targetFPS: 60,
+    gravity: 0.8,
+    jumpPower: -12,
+    gameSpeed: 4,
+    spawnRate: 0.02,
+    canvas: headless
+      ? undefined
+      : (document.createElement("canvas") as HTMLCanvasElement),
+    headless,
+    audio: AUDIO,
+    render: RENDER,
+  });
+  engine.initialize();
+  return engine;
+}
+
+function entry(id: string, score: number): LeaderboardEntry {
+  return {
+    id,
+    initials: "ABC",
+    score,
+    date: "2024-01-01T00:00:00.000Z",
+    duration: 1000,
+    collectibles: 0,
+    seed: 1,
+  };
+}
+
+function submission(id: string, score: number): LeaderboardSubmission {
+  return {
+    entry: entry(id, score),
+    replay: {
+      version: 1,
+      seed: 1,
+      config: {} as any,
+      frames: 0,
+      inputs: [],
+      score,
+    },
+  };
+}
+
+describe("LocalLeaderboardProvider", () => {
+  let provider: LocalLeaderboardProvider;
+
+  beforeEach(() => {
+    localStorage.clear();
+    provider = new LocalLeaderboardProvider(new LocalLeaderboard());
+  });
+
+  it("ranks submissions and fetches the top N", async () => {
+    for (const [id, score] of [
+      ["a", 10],
+      ["b", 40],
+      ["c", 30],
+    ] as const) {
+      await provider.submit(submission(id, score));
+    }
+
+    const top = await provider.getTop(2);
+    expect(top.map((e) => [e.id, e.rank])).toEqual([
+      ["b", 0],
+      ["c", 1],
+    ]);
+  });
+
+  it("fetches entries around a run", async () => {
+    for (let i = 1; i <= 6; i++) {
+      await provider.submit(submission(`run${i}`, i * 10));
+    }
+
+    const around = await provider.getAround("run3", 1);
+    expect(around.map((e) => e.id)).toEqual(["run4", "run3", "run2"]);
+    expect(await provider.getAround("missing", 1)).toEqual([]);
+  });
+
+  it("names runs on resubmission", async () => {
+    await provider.submit(submission("run", 10));
+    await provider.submit({
+      ...submission("run", 10),
+      entry: { ...entry("run", 10), initials: "xyz" },
+    });
+
+    expect((await provider.getTop(1))[0].initials).toBe("XYZ");
+  });
+});
+
+describe("HttpLeaderboardProvider", () => {
+  let server: MockLeaderboardServer;
+  let provider: HttpLeaderboardProvider;
+
+  beforeEach(() => {
+    server = startMockLeaderboardServer();
+    provider = new HttpLeaderboardProvider({ baseUrl: server.url + "/" });
+  });
+
+  afterEach(() => {
+    server.stop();
+  });
+
+  it("submits runs with their replay and reads the board back", async () => {
+    expect(await provider.submit(submission("a", 10))).toEqual({
+      accepted: true,
+      rank: 0,
+    });
+    expect(await provider.submit(submission("b", 20))).toEqual({
+      accepted: true,
+      rank: 0,
+    });
+
+    expect(server.submissions[0].replay?.seed).toBe(1);
+    expect((await provider.getTop(10)).map((e) => e.id)).toEqual(["b", "a"]);
+    expect((await provider.getAround("a", 1)).map((e) => e.rank)).toEqual([
+      0, 1,
+    ]);
+  });
+
+  it("reports runs the server refuses to verify", async () => {
+    const noReplay = { ...submission("a", 10), replay: null };
+    expect(await provider.submit(noReplay)).toEqual({
+      accepted: false,
+      rank: -1,
+    });
+    expect(await provider.getTop(10)).toEqual([]);
+  });
+
+  it("resolves to empty results when the server is unreachable", async () => {
+    server.stop();
+
+    expect(await provider.submit(submission("a", 10))).toEqual({
+      accepted: false,
+      rank: -1,
+    });
+    expect(await provider.getTop(5)).toEqual([]);
+  });
+
+  it("ignores malformed responses", async () => {
+    const respond = (body: unknown) =>
+      new HttpLeaderboardProvider({
+        baseUrl: server.url,
+        fetch: async () => Response.json(body),
+      });
+
+    expect(
+      await respond({ accepted: "yes", rank: 0 }).submit(submission("a", 1)),
+    ).toEqual({ accepted: false, rank: -1 });
+    expect(
+      await respond({ accepted: true, rank: "1" }).submit(submission("a", 1)),
+    ).toEqual({ accepted: true, rank: -1 });
+    expect(await respond([1, 2]).getTop(5)).toEqual([]);
+    expect(
+      await respond({
+        entries: [{ ...entry("a", 10), rank: 0 }, { id: "b", score: 5 }, null],
+      }).getTop(5),
+    ).toEqual([{ ...entry("a", 10), rank: 0 }]);
+  });
+
+  it("resolves to empty results on HTTP errors", async () => {
+    const broken = new HttpLeaderboardProvider({
+      baseUrl: server.url + "/missing",
+    });
+    expect(await broken.getAround("a", 1)).toEqual([]);
+  });
+
+  it("lets the game call the mock server from another origin", async () => {
+    const preflight = await fetch(server.url + "/scores", {
+      method: "OPTIONS",
+      headers: {
+        Origin: "http://localhost:4321",
+        "Access-Control-Request-Method": "POST",
+        "Access-Control-Request-Headers": "content-type",
+      },
+    });
+    expect(preflight.status).toBe(204);
+    expect(preflight.headers.get("Access-Control-Allow-Origin")).toBe("*");
+    expect(preflight.headers.get("Access-Control-Allow-Methods")).toContain(
+      "POST",
+    );
+    expect(preflight.headers.get("Access-Control-Allow-Headers")).toBe(
+      "Content-Type",
+    );
+
+    const missing = await fetch(server.url + "/missing");
+    expect(missing.status).toBe(404);
+    expect(missing.headers.get("Access-Control-Allow-Origin")).toBe("*");
+  });
+});
+
+describe("GameEngine leaderboard provider", () => {
+  const engines: GameEngine[] = [];
+  let server: MockLeaderboardServer;
+
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    engines.splice(0).forEach((engine) => engine.destroy());
+    server?.stop();
+  });
+
+  it("defaults to the local board", async () => {
+    const engine = createEngine(false);
+    engines.push(engine);
+
+    expect(engine.getLeaderboardProvider().name).toBe("local");
+    engine.setScore(50);
+    engine.stop();
+
+    const result = await engine.submitLastRun("amy");
+    expect(result).toEqual({ accepted: true, rank: 0 });
+    expect(engine.getLeaderboard()[0].initials).toBe("AMY");
+  });
+
+  it("submits the last run and its replay to a plugged-in backend", async () => {
+    server = startMockLeaderboardServer();
+    const engine = createEngine(false);
+    engines.push(engine);
+    engine.setLeaderboardProvider(
+      new HttpLeaderboardProvider({ baseUrl: server.url }),
+    );
+
+    engine.start();
+    engine.step(30);
+    engine.setScore(50);
+    engine.stop();
+
+    const result = await engine.submitLastRun("bob");
+    expect(result.accepted).toBe(true);
+
+    const [sent] = server.submissions;
+    expect(sent.entry.initials).toBe("BOB");
+    expect(sent.entry.seed).toBe(engine.getSeed());
+    expect(sent.replay?.seed).toBe(engine.getSeed());
+    expect(sent.replay?.frames).toBe(30);
+
+    engine.setLeaderboardProvider(null);
+    expect(engine.getLeaderboardProvider().name).toBe("local");
+  });
+
+  it("lets a server reject scores its replay can't reproduce", async () => {
+    server = startMockLeaderboardServer({
+      verify: ({ entry, replay }) => {
+        if (!replay) return false;
+        const sim = createEngine(true);
+        const state = new ReplayPlayer(replay).simulate(sim);
+        sim.destroy();
+        return state !== null && state.score === entry.score;
+      },
+    });
+    const engine = createEngine(false);
+    engines.push(engine);
+    engine.setLeaderboardProvider(
+      new HttpLeaderboardProvider({ baseUrl: server.url }),
+    );
+
+    engine.start();
+    engine.step(30);
+    engine.setScore(9999); // Not earned in play
+    engine.stop();
+
+    expect(await engine.submitLastRun("bad")).toEqual({
+      accepted: false,
+      rank: -1,
+    });
+  });
+
+  it("has nothing to submit before a scored run", async () => {
+    const engine = createEngine(false);
+    engines.push(engine);
+
+    expect(engine.getLastRun()).toBeNull();
+    expect(await engine.submitLastRun()).toEqual({
+      accepted: false,
+      rank: -1,
+    });
+  });
+});
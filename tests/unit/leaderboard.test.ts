@@ -0,0 +1,229 @@
+/**
+ * Leaderboard Tests - Local top-N storage, schema versioning and migration
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import {
+  LocalLeaderboard,
+  LEADERBOARD_KEY,
+  LEGACY_HIGH_SCORE_KEY,
+  normalizeInitials,
+} from "../../src/game/leaderboard/LocalLeaderboard";
+import { loadVersioned, saveVersioned } from "../../src/game/utils/Storage";
+import { GameEngine } from "../../src/game/GameEngine";
+import type {
+  GameEvent,
+  LeaderboardEntry,
+} from "../../src/game/types/GameTypes";
+
+// Mock DOM environment
+import "../test-setup";
+
+function entry(
+  id: string,
+  score: number,
+  overrides: Partial<LeaderboardEntry> = {},
+): LeaderboardEntry {
+  return {
+    id,
+    initials: "ABC",
+    score,
+    date: "2024-01-01T00:00:00.000Z",
+    duration: 1000,
+    collectibles: 2,
+    seed: 42,
+    ...overrides,
+  };
+}
+
+function createEngine(): GameEngine {
+  const canvas = document.createElement("canvas") as HTMLCanvasElement;
+  const engine = new GameEngine({
+    width: 240,
+    height: 216,
+    targetFPS: 60,
+    gravity: 0.8,
+    jumpPower: -12,
+    gameSpeed: 4,
+    spawnRate: 0.02,
+    canvas,
+    seed: 7,
+    audio: {
+      enabled: false,
+      volume: 0,
+      frequencies: {
+        jump: 400,
+        collect: 800,
+        gameOver: 200,
+        background: [100, 150, 200],
+      },
+    },
+    render: {
+      pixelated: true,
+      doubleBuffering: false,
+      showFPS: false,
+      showHitboxes: false,
+    },
+  });
+  engine.initialize();
+  return engine;
+}
+
+describe("Storage", () => {
+  beforeEach(() => localStorage.clear());
+
+  it("round-trips versioned records", () => {
+    saveVersioned("key", 2, { a: 1 });
+    expect(loadVersioned("key", 2)).toEqual({ a: 1 });
+  });
+
+  it("migrates older versions and saves the result", () => {
+    saveVersioned("key", 1, { count: 1 });
+    const migrated = loadVersioned<{ total: number }>(
+      "key",
+      2,
+      (data: any) => ({
+        total: data.count,
+      }),
+    );
+
+    expect(migrated).toEqual({ total: 1 });
+    expect(JSON.parse(localStorage.getItem("key")!).version).toBe(2);
+  });
+
+  it("ignores corrupt, unversioned and newer data", () => {
+    localStorage.setItem("corrupt", "{nope");
+    localStorage.setItem("bare", "123");
+    saveVersioned("future", 9, {});
+
+    expect(loadVersioned("corrupt", 1)).toBeNull();
+    expect(loadVersioned("bare", 1)).toBeNull();
+    expect(loadVersioned("future", 1)).toBeNull();
+  });
+});
+
+describe("LocalLeaderboard", () => {
+  beforeEach(() => localStorage.clear());
+
+  it("normalizes initials", () => {
+    expect(normalizeInitials("ab")).toBe("AB");
+    expect(normalizeInitials("a-b c!d")).toBe("ABC");
+    expect(normalizeInitials("")).toBe("???");
+  });
+
+  it("keeps the best N entries sorted by score", () => {
+    const board = new LocalLeaderboard({ maxEntries: 3 });
+
+    expect(board.submit(entry("a", 10))).toBe(0);
+    expect(board.submit(entry("b", 30))).toBe(0);
+    expect(board.submit(entry("c", 20))).toBe(1);
+    expect(board.submit(entry("d", 5))).toBe(-1);
+    expect(board.submit(entry("e", 25))).toBe(1);
+
+    expect(board.getEntries().map((e) => e.id)).toEqual(["b", "e", "c"]);
+    expect(board.getTopScore()).toBe(30);
+  });
+
+  it("stores the run metadata", () => {
+    const board = new LocalLeaderboard();
+    board.submit(
+      entry("run", 50, { duration: 4321, collectibles: 7, seed: 99 }),
+    );
+
+    const [saved] = new LocalLeaderboard().getEntries();
+    expect(saved).toEqual(
+      entry("run", 50, { duration: 4321, collectibles: 7, seed: 99 }),
+    );
+  });
+
+  it("updates an existing run without lowering its score", () => {
+    const board = new LocalLeaderboard();
+    board.submit(entry("run", 50));
+    board.submit(entry("run", 80));
+    board.submit(entry("run", 60));
+
+    const entries = board.getEntries();
+    expect(entries).toHaveLength(1);
+    expect(entries[0].score).toBe(80);
+  });
+
+  it("names entries after the fact", () => {
+    const board = new LocalLeaderboard();
+    board.submit(entry("run", 50, { initials: "" }));
+    expect(board.getEntries()[0].initials).toBe("???");
+
+    expect(board.setInitials("run", "zed")).toBe(true);
+    expect(board.getEntries()[0].initials).toBe("ZED");
+    expect(board.setInitials("missing", "ZED")).toBe(false);
+  });
+
+  it("migrates the legacy high score key", () => {
+    localStorage.setItem(LEGACY_HIGH_SCORE_KEY, "250");
+    const board = new LocalLeaderboard();
+
+    expect(board.getTopScore()).toBe(250);
+    expect(localStorage.getItem(LEGACY_HIGH_SCORE_KEY)).toBeNull();
+    expect(JSON.parse(localStorage.getItem(LEADERBOARD_KEY)!).version).toBe(1);
+  });
+
+  it("clears every entry", () => {
+    localStorage.setItem(LEGACY_HIGH_SCORE_KEY, "250");
+    const board = new LocalLeaderboard();
+    board.submit(entry("run", 500));
+    board.clear();
+
+    expect(board.getEntries()).toEqual([]);
+    expect(board.getTopScore()).toBe(0);
+  });
+});
+
+describe("GameEngine leaderboard", () => {
+  let engine: GameEngine;
+  let gameOvers: GameEvent[];
+
+  beforeEach(() => {
+    localStorage.clear();
+    engine = createEngine();
+    gameOvers = [];
+    engine.addEventListener("gameover", (event) => gameOvers.push(event));
+  });
+
+  afterEach(() => {
+    engine.destroy();
+  });
+
+  it("records finished runs and reports the entry on game over", () => {
+    engine.setScore(120);
+    engine.stop();
+
+    const [recorded] = engine.getLeaderboard();
+    expect(recorded.score).toBe(120);
+    expect(recorded.seed).toBe(7);
+    expect(engine.getHighScore()).toBe(120);
+    expect(gameOvers[0].data).toMatchObject({
+      score: 120,
+      rank: 0,
+      entryId: recorded.id,
+    });
+
+    expect(engine.setLeaderboardInitials(recorded.id, "joe")).toBe(true);
+    expect(engine.getLeaderboard()[0].initials).toBe("JOE");
+  });
+
+  it("does not record empty runs", () => {
+    engine.stop();
+
+    expect(engine.getLeaderboard()).toEqual([]);
+    expect(gameOvers[0].data.entryId).toBeNull();
+  });
+
+  it("keeps one entry per run", () => {
+    engine.setScore(100);
+    engine.stop();
+    engine.setScore(250);
+    engine.stop();
+
+    expect(engine.getLeaderboard()).toHaveLength(1);
+    expect(engine.getHighScore()).toBe(250);
+  });
+});
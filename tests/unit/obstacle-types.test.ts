@@ -0,0 +1,229 @@
+/**
+ * Obstacle Type Tests - Flying, bouncing and tall obstacles
+ */
+
+import { describe, it, expect, afterEach } from "bun:test";
+import { Obstacle } from "../../src/game/entities/Obstacle";
+import {
+  OBSTACLE_DEFINITIONS,
+  OBSTACLE_TYPES,
+  getClearanceHeight,
+} from "../../src/game/entities/obstacleTypes";
+import { PhysicsSystem } from "../../src/game/systems/PhysicsSystem";
+import { SpawnPlanner } from "../../src/game/systems/SpawnPlanner";
+import { GameEngine } from "../../src/game/GameEngine";
+import type {
+  DifficultyConfig,
+  ObstacleType,
+} from "../../src/game/types/GameTypes";
+
+// Mock DOM environment
+import "../test-setup";
+
+const GROUND_Y = 196;
+
+class MockCtx {
+  public fills: string[] = [];
+  public fillStyle: string = "";
+
+  fillRect() {
+    this.fills.push(this.fillStyle);
+  }
+}
+
+function spawn(type: ObstacleType): Obstacle {
+  const definition = OBSTACLE_DEFINITIONS[type];
+  const obstacle = new Obstacle({
+    position: { x: 0, y: 0 },
+    size: { width: 16, height: 20 },
+    type: "bug",
+  });
+  obstacle.setType(type);
+  obstacle.setSpawnPosition(
+    200,
+    GROUND_Y - definition.elevation - definition.height,
+  );
+  return obstacle;
+}
+
+function createEngine(difficulty: Partial<DifficultyConfig>): GameEngine {
+  const engine = new GameEngine({
+    width: 240,
+    height: 216,
+    targetFPS: 60,
+    gravity: 0.8,
+    jumpPower: -12,
+    gameSpeed: 4,
+    spawnRate: 0.05,
+    difficulty,
+    seed: 21,
+    headless: true,
+    audio: {
+      enabled: false,
+      volume: 0,
+      frequencies: {
+        jump: 400,
+        collect: 800,
+        gameOver: 200,
+        background: [100, 150, 200],
+      },
+    },
+    render: {
+      pixelated: true,
+      doubleBuffering: false,
+      showFPS: false,
+      showHitboxes: false,
+    },
+  });
+  engine.initialize();
+  (engine as any).checkCollisions = () => {};
+  return engine;
+}
+
+describe("Obstacle types", () => {
+  it("takes its size from the type definition", () => {
+    for (const type of OBSTACLE_TYPES) {
+      const obstacle = spawn(type);
+      expect(obstacle.size).toEqual({
+        width: OBSTACLE_DEFINITIONS[type].width,
+        height: OBSTACLE_DEFINITIONS[type].height,
+      });
+    }
+  });
+
+  it("renders every type with the GameBoy palette", () => {
+    const palette = ["#0f380f", "#306230", "#8bac0f", "#9bbc0f"];
+
+    for (const type of OBSTACLE_TYPES) {
+      const ctx = new MockCtx();
+      spawn(type).render(ctx as any);
+
+      expect(ctx.fills.length).toBeGreaterThan(0);
+      ctx.fills.forEach((fill) => expect(palette).toContain(fill));
+    }
+  });
+
+  it("flies a segfault at head height", () => {
+    const segfault = spawn("segfault");
+    const box = segfault.getBoundingBox();
+    const standing = { top: GROUND_Y - 20, bottom: GROUND_Y };
+    const ducking = { top: GROUND_Y - 10, bottom: GROUND_Y };
+
+    // Overlaps a standing player but leaves room to duck underneath
+    expect(box.y < standing.bottom && box.y + box.height > standing.top).toBe(
+      true,
+    );
+    expect(box.y + box.height).toBeLessThanOrEqual(ducking.top);
+  });
+
+  it("bounces a memory leak along a fixed arc", () => {
+    const leak = spawn("memoryleak");
+    const restY = leak.position.y;
+    const { bounceHeight, bouncePeriod } = OBSTACLE_DEFINITIONS.memoryleak;
+    const heights: number[] = [];
+
+    for (let t = 0; t < bouncePeriod!; t += 50) {
+      leak.update(50, 4);
+      heights.push(restY - leak.position.y);
+    }
+
+    expect(Math.max(...heights)).toBeCloseTo(bounceHeight!, 0);
+    expect(Math.min(...heights)).toBeGreaterThanOrEqual(0);
+    expect(heights[heights.length - 1]).toBeCloseTo(0, 5);
+  });
+
+  it("stands a merge conflict tall on the ground", () => {
+    const conflict = spawn("mergeconflict");
+    const box = conflict.getBoundingBox();
+
+    expect(box.y + box.height).toBe(GROUND_Y);
+    expect(box.height).toBe(40);
+  });
+
+  it("shrinks hitboxes by the definition's inset", () => {
+    const leak = spawn("memoryleak");
+    const box = leak.getBoundingBox();
+
+    expect(box.x).toBe(202);
+    expect(box.width).toBe(10);
+  });
+
+  it("keeps every type jumpable at the starting speed", () => {
+    const planner = new SpawnPlanner(new PhysicsSystem(0.8), {
+      jumpPower: -12,
+      playerWidth: 20,
+    });
+
+    for (const type of OBSTACLE_TYPES) {
+      const definition = OBSTACLE_DEFINITIONS[type];
+      expect(
+        planner.canClear(definition.width, getClearanceHeight(definition), 4),
+      ).toBe(true);
+    }
+  });
+});
+
+describe("GameEngine obstacle spawning", () => {
+  const engines: GameEngine[] = [];
+
+  afterEach(() => {
+    engines.splice(0).forEach((engine) => engine.destroy());
+  });
+
+  function collectTypes(engine: GameEngine, frames: number): Set<string> {
+    const types = new Set<string>();
+    engine.start();
+    for (let i = 0; i < frames; i++) {
+      engine.step();
+      (engine as any).obstacles
+        .getActive()
+        .forEach((o: Obstacle) => types.add(o.obstacleType));
+    }
+    return types;
+  }
+
+  it("holds back new types until their difficulty level", () => {
+    const mix = { mergeconflict: 1 };
+    const engine = createEngine({
+      rampTime: 1e9,
+      rampDistance: 1e9,
+      obstacleMix: { start: mix, end: mix },
+    });
+    engines.push(engine);
+
+    expect([...collectTypes(engine, 600)]).toEqual(["bug"]);
+  });
+
+  it("places unlocked types by their definition", () => {
+    const mix = { segfault: 1, memoryleak: 1, mergeconflict: 1 };
+    const engine = createEngine({
+      rampTime: 1,
+      rampDistance: 1,
+      maxGameSpeed: 4,
+      obstacleMix: { start: mix, end: mix },
+    });
+    engines.push(engine);
+    const planner = new SpawnPlanner(new PhysicsSystem(0.8), {
+      jumpPower: -12,
+      playerWidth: 20,
+    });
+
+    const types = new Set<string>();
+    engine.start();
+    for (let i = 0; i < 1200; i++) {
+      engine.step();
+      const active: Obstacle[] = (engine as any).obstacles.getActive();
+      active.forEach((o) => types.add(o.obstacleType));
+
+      // Clearance envelopes stay fair however the obstacles move
+      const sequence = active.map((o) => ({
+        x: o.position.x,
+        width: o.size.width,
+        height: getClearanceHeight(o.getDefinition()),
+      }));
+      expect(planner.isSequenceClearable(sequence, 4)).toBe(true);
+    }
+
+    expect(types).toEqual(new Set(["segfault", "memoryleak", "mergeconflict"]));
+  });
+});
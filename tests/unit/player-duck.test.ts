@@ -0,0 +1,167 @@
+/**
+ * Player Duck Tests - Sliding under flying obstacles and fast-falling
+ */
+
+import { describe, it, expect, afterEach } from "bun:test";
+import { Player } from "../../src/game/entities/Player";
+import { GameEngine } from "../../src/game/GameEngine";
+import type { InputState } from "../../src/game/types/GameTypes";
+
+// Mock DOM environment
+import "../test-setup";
+
+const GROUND_Y = 176;
+
+function createPlayer(): Player {
+  return new Player({
+    position: { x: 50, y: GROUND_Y },
+    size: { width: 20, height: 20 },
+    jumpPower: -12,
+    groundY: GROUND_Y,
+  });
+}
+
+function idleInput(overrides: Partial<InputState> = {}): InputState {
+  return {
+    left: false,
+    right: false,
+    up: false,
+    down: false,
+    space: false,
+    pause: false,
+    ...overrides,
+  };
+}
+
+function createEngine(): GameEngine {
+  const engine = new GameEngine({
+    width: 240,
+    height: 216,
+    targetFPS: 60,
+    gravity: 0.8,
+    jumpPower: -12,
+    gameSpeed: 4,
+    spawnRate: 0,
+    seed: 5,
+    headless: true,
+    audio: {
+      enabled: false,
+      volume: 0,
+      frequencies: {
+        jump: 400,
+        collect: 800,
+        gameOver: 200,
+        background: [100, 150, 200],
+      },
+    },
+    render: {
+      pixelated: true,
+      doubleBuffering: false,
+      showFPS: false,
+      showHitboxes: false,
+    },
+  });
+  engine.initialize();
+  return engine;
+}
+
+describe("Player ducking", () => {
+  it("shrinks the hitbox while keeping the feet on the ground", () => {
+    const player = createPlayer();
+    player.duck(true);
+
+    const box = player.getBoundingBox();
+    expect(player.isDucking).toBe(true);
+    expect(box.height).toBe(10);
+    expect(box.y + box.height).toBe(GROUND_Y + 20);
+
+    player.duck(false);
+    expect(player.getBoundingBox().height).toBe(20);
+  });
+
+  it("does not shrink the hitbox in the air", () => {
+    const player = createPlayer();
+    player.jump();
+    player.duck(true);
+    player.update(1000 / 60, 4);
+
+    expect(player.isDucking).toBe(false);
+    expect(player.getBoundingBox().height).toBe(20);
+  });
+
+  it("fast-falls while holding down in the air", () => {
+    const normal = createPlayer();
+    const fast = createPlayer();
+    normal.jump();
+    fast.jump();
+    fast.duck(true);
+
+    let normalFrames = 0;
+    let fastFrames = 0;
+    do {
+      normal.update(1000 / 60, 4);
+      normalFrames++;
+    } while (normal.isJumping);
+    do {
+      fast.update(1000 / 60, 4);
+      fastFrames++;
+    } while (fast.isJumping);
+
+    expect(fastFrames).toBeLessThan(normalFrames);
+    // Landing while still holding down goes straight into a slide
+    expect(fast.isDucking).toBe(true);
+  });
+
+  it("draws a flatter sprite while ducking", () => {
+    const player = createPlayer();
+    const rects: number[] = [];
+    const ctx = {
+      fillStyle: "",
+      fillRect: (_x: number, y: number) => rects.push(y),
+    } as unknown as CanvasRenderingContext2D;
+
+    player.duck(true);
+    player.render(ctx);
+
+    expect(Math.min(...rects)).toBeGreaterThanOrEqual(GROUND_Y + 10);
+  });
+
+  it("clears ducking state on reset", () => {
+    const player = createPlayer();
+    player.duck(true);
+    player.reset();
+
+    player.update(1000 / 60, 4);
+    expect(player.isDucking).toBe(false);
+  });
+});
+
+describe("GameEngine ducking", () => {
+  let engine: GameEngine;
+
+  afterEach(() => {
+    engine.destroy();
+  });
+
+  function runPastSegfault(input: InputState): boolean {
+    engine = createEngine();
+    engine.setInputSource(() => input);
+    engine.start();
+    (engine as any).spawnObstacle("segfault", 120);
+
+    let crashed = false;
+    engine.addEventListener("gameover", () => {
+      crashed = true;
+    });
+    engine.step(40);
+    return crashed;
+  }
+
+  it("slides under a segfault while down is held", () => {
+    expect(runPastSegfault(idleInput({ down: true }))).toBe(false);
+  });
+
+  it("hits a segfault when standing", () => {
+    expect(runPastSegfault(idleInput())).toBe(true);
+  });
+});
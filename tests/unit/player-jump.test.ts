@@ -0,0 +1,157 @@
+/**
+ * Player Jump Tests - Variable height and jump buffering
+ */
+
+import { describe, it, expect } from "bun:test";
+import { Player } from "../../src/game/entities/Player";
+import type { PlayerConfig } from "../../src/game/types/GameTypes";
+
+// Mock DOM environment
+import "../test-setup";
+
+const GROUND_Y = 176;
+const STEP = 1000 / 60;
+
+function createPlayer(config: Partial<PlayerConfig> = {}): Player {
+  return new Player({
+    position: { x: 50, y: GROUND_Y },
+    size: { width: 20, height: 20 },
+    jumpPower: -12,
+    groundY: GROUND_Y,
+    ...config,
+  });
+}
+
+/**
+ * Run the player the way the engine does: input first, then physics.
+ * `held(frame)` says whether jump is held on that step. Returns the peak
+ * height and the frames on which jumps started.
+ */
+function simulate(
+  player: Player,
+  held: (frame: number) => boolean,
+  frames: number,
+): { peak: number; jumps: number[] } {
+  let peak = 0;
+  const jumps: number[] = [];
+  for (let frame = 0; frame < frames; frame++) {
+    if (player.setJumpInput(held(frame))) jumps.push(frame);
+    player.update(STEP, 4);
+    peak = Math.max(peak, GROUND_Y - player.position.y);
+  }
+  return { peak, jumps };
+}
+
+describe("Player variable-height jump", () => {
+  it("jumps higher the longer the button is held", () => {
+    const tap = simulate(createPlayer(), (f) => f < 2, 60);
+    const medium = simulate(createPlayer(), (f) => f < 6, 60);
+    const full = simulate(createPlayer(), () => true, 60);
+
+    expect(tap.jumps).toEqual([0]);
+    expect(tap.peak).toBeLessThan(medium.peak);
+    expect(medium.peak).toBeLessThan(full.peak);
+    expect(full.peak).toBeCloseTo(84, 0);
+  });
+
+  it("keeps the minimum jump power on release", () => {
+    const player = createPlayer({ minJumpPower: -4 });
+    player.setJumpInput(true);
+    player.update(STEP, 4);
+    player.setJumpInput(false);
+
+    expect(player.velocity.y).toBe(-4);
+  });
+
+  it("does not cut a jump that is already falling", () => {
+    const player = createPlayer();
+    player.setJumpInput(true);
+    for (let i = 0; i < 20; i++) player.update(STEP, 4);
+    const falling = player.velocity.y;
+    player.setJumpInput(false);
+
+    expect(falling).toBeGreaterThan(0);
+    expect(player.velocity.y).toBe(falling);
+  });
+
+  it("does not re-jump while the button stays held", () => {
+    const { jumps } = simulate(createPlayer(), () => true, 90);
+    expect(jumps).toEqual([0]);
+  });
+
+  it("never allows a second jump in the air", () => {
+    const player = createPlayer();
+    player.setJumpInput(true);
+    player.update(STEP, 4);
+    player.setJumpInput(false);
+    player.update(STEP, 4);
+
+    expect(player.canJump()).toBe(false);
+    expect(player.setJumpInput(true)).toBe(false);
+  });
+
+  it("leaves direct jump() calls at full height", () => {
+    const player = createPlayer();
+    player.jump();
+    let peak = 0;
+    for (let i = 0; i < 40; i++) {
+      player.update(STEP, 4);
+      peak = Math.max(peak, GROUND_Y - player.position.y);
+    }
+    expect(peak).toBeCloseTo(84, 0);
+  });
+});
+
+describe("Player jump buffering", () => {
+  // A full jump lasts 29 steps; the player lands during the update of frame 28
+  const LANDING_FRAME = 28;
+  // Holding through the rise keeps the first jump at full height
+  const RISE_FRAMES = 16;
+
+  it("fires a press made shortly before landing", () => {
+    const pressFrame = LANDING_FRAME - 3;
+    const { jumps } = simulate(
+      createPlayer({ jumpBufferTime: 100 }),
+      (f) => f < RISE_FRAMES || f === pressFrame,
+      60,
+    );
+
+    expect(jumps).toEqual([0, LANDING_FRAME + 1]);
+  });
+
+  it("forgets a press made too early", () => {
+    const pressFrame = LANDING_FRAME - 6;
+    const { jumps } = simulate(
+      createPlayer({ jumpBufferTime: 100 }),
+      (f) => f < RISE_FRAMES || f === pressFrame,
+      60,
+    );
+
+    expect(jumps).toEqual([0]);
+  });
+
+  it("turns a released buffered press into a short hop", () => {
+    const player = createPlayer();
+    const first = simulate(
+      player,
+      (f) => f < RISE_FRAMES || f === LANDING_FRAME - 2,
+      LANDING_FRAME + 1,
+    );
+    expect(first.jumps).toEqual([0]);
+
+    // The tap was let go before landing, so the buffered jump is cut at once
+    const hop = simulate(player, () => false, 60);
+    expect(hop.jumps).toEqual([0]);
+    expect(hop.peak).toBeLessThan(first.peak / 2);
+  });
+
+  it("can be disabled", () => {
+    const { jumps } = simulate(
+      createPlayer({ jumpBufferTime: 0 }),
+      (f) => f < RISE_FRAMES || f === LANDING_FRAME - 1,
+      60,
+    );
+
+    expect(jumps).toEqual([0]);
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Power-Up Tests - Timed shield, magnet, slow motion and double points
+ */
+
+import { describe, it, expect, afterEach } from "bun:test";
+import { PowerUpSystem } from "../../src/game/systems/PowerUpSystem";
+import { POWER_UP_DEFINITIONS } from "../../src/game/entities/powerUpTypes";
+import { GameEngine } from "../../src/game/GameEngine";
+import type { GameEvent } from "../../src/game/types/GameTypes";
+
+// Mock DOM environment
+import "../test-setup";
+
+const STEP = 1000 / 60;
+const PLAYER_Y = 176;
+
+function createEngine(): GameEngine {
+  const engine = new GameEngine({
+    width: 240,
+    height: 216,
+    targetFPS: 60,
+    gravity: 0.8,
+    jumpPower: -12,
+    gameSpeed: 4,
+    spawnRate: 0,
+    seed: 3,
+    headless: true,
+    audio: {
+      enabled: false,
+      volume: 0,
+      frequencies: {
+        jump: 400,
+        collect: 800,
+        gameOver: 200,
+        background: [100, 150, 200],
+      },
+    },
+    render: {
+      pixelated: true,
+      doubleBuffering: false,
+      showFPS: false,
+      showHitboxes: false,
+    },
+  });
+  engine.initialize();
+  engine.start();
+  return engine;
+}
+
+function recordEvents(engine: GameEngine): GameEvent[] {
+  const events: GameEvent[] = [];
+  for (const type of ["powerupstart", "powerupend", "gameover"] as const) {
+    engine.addEventListener(type, (event) => events.push(event));
+  }
+  return events;
+}
+
+describe("PowerUpSystem", () => {
+  it("expires power-ups after their duration", () => {
+    const powerUps = new PowerUpSystem();
+    powerUps.activate("magnet");
+
+    expect(powerUps.update(POWER_UP_DEFINITIONS.magnet.duration - 1)).toEqual(
+      [],
+    );
+    expect(powerUps.isActive("magnet")).toBe(true);
+    expect(powerUps.update(1)).toEqual(["magnet"]);
+    expect(powerUps.isActive("magnet")).toBe(false);
+  });
+
+  it("restarts the timer when collected again", () => {
+    const powerUps = new PowerUpSystem();
+    powerUps.activate("slowmo");
+    powerUps.update(3000);
+    powerUps.activate("slowmo");
+
+    expect(powerUps.getActive()).toEqual([
+      {
+        type: "slowmo",
+        remaining: POWER_UP_DEFINITIONS.slowmo.duration,
+        duration: POWER_UP_DEFINITIONS.slowmo.duration,
+      },
+    ]);
+  });
+
+  it("uses the shield up on the first hit", () => {
+    const powerUps = new PowerUpSystem();
+    powerUps.activate("shield");
+
+    expect(powerUps.consumeShield()).toBe(true);
+    expect(powerUps.consumeShield()).toBe(false);
+  });
+
+  it("only changes scoring and speed while active", () => {
+    const powerUps = new PowerUpSystem({
+      scoreMultiplier: 3,
+      slowMotionScale: 0.25,
+    });
+    expect(powerUps.getScoreMultiplier()).toBe(1);
+    expect(powerUps.getSpeedScale()).toBe(1);
+    expect(powerUps.getMagnetRadius()).toBe(0);
+
+    powerUps.activate("multiplier");
+    powerUps.activate("slowmo");
+    powerUps.activate("magnet");
+    expect(powerUps.getScoreMultiplier()).toBe(3);
+    expect(powerUps.getSpeedScale()).toBe(0.25);
+    expect(powerUps.getMagnetRadius()).toBeGreaterThan(0);
+
+    powerUps.reset();
+    expect(powerUps.getActive()).toEqual([]);
+  });
+});
+
+describe("GameEngine power-ups", () => {
+  let engine: GameEngine;
+
+  afterEach(() => {
+    engine.destroy();
+  });
+
+  it("activates a power-up when collected and ends it on expiry", () => {
+    engine = createEngine();
+    const events = recordEvents(engine);
+    (engine as any).spawnCollectible("magnet", 52, PLAYER_Y);
+
+    engine.step();
+    expect(events.map((e) => e.type)).toEqual(["powerupstart"]);
+    expect(events[0].data.type).toBe("magnet");
+    expect(engine.getActivePowerUps().map((p) => p.type)).toEqual(["magnet"]);
+
+    engine.step(Math.ceil(POWER_UP_DEFINITIONS.magnet.duration / STEP));
+    expect(events[1]).toMatchObject({
+      type: "powerupend",
+      data: { type: "magnet", reason: "expired" },
+    });
+    expect(engine.getActivePowerUps()).toEqual([]);
+  });
+
+  it("absorbs one obstacle hit with the shield", () => {
+    engine = createEngine();
+    const events = recordEvents(engine);
+    (engine as any).spawnCollectible("shield", 52, PLAYER_Y);
+    engine.step();
+
+    (engine as any).spawnObstacle("bug", 60);
+    engine.step();
+    expect(engine.getGameState().isRunning).toBe(true);
+    expect(events[1]).toMatchObject({
+      type: "powerupend",
+      data: { type: "shield", reason: "absorbed" },
+    });
+
+    (engine as any).spawnObstacle("bug", 60);
+    engine.step();
+    expect(engine.getGameState().isRunning).toBe(false);
+  });
+
+  it("slows the game down with the debugger", () => {
+    engine = createEngine();
+    engine.step();
+    const normal = engine.getGameState().gameSpeed;
+
+    (engine as any).spawnCollectible("slowmo", 52, PLAYER_Y);
+    engine.step(2);
+    expect(engine.getGameState().gameSpeed).toBeCloseTo(normal / 2, 2);
+  });
+
+  it("doubles collected points with the multiplier", () => {
+    engine = createEngine();
+    (engine as any).spawnCollectible("multiplier", 52, PLAYER_Y);
+    engine.step();
+    const before = engine.getScore();
+
+    (engine as any).spawnCollectible("commit", 52, PLAYER_Y);
+    engine.step();
+    expect(engine.getScore() - before).toBe(20);
+  });
+
+  it("pulls nearby collectibles towards the player with the magnet", () => {
+    engine = createEngine();
+    (engine as any).spawnCollectible("magnet", 52, PLAYER_Y);
+    engine.step();
+
+    (engine as any).spawnCollectible("commit", 110, PLAYER_Y - 40);
+    const collected = engine.getGameState().collected;
+    engine.step(10);
+    expect(engine.getGameState().collected).toBe(collected + 1);
+  });
+
+  it("clears power-ups when a new run starts", () => {
+    engine = createEngine();
+    (engine as any).spawnCollectible("shield", 52, PLAYER_Y);
+    engine.step();
+    expect(engine.getActivePowerUps()).toHaveLength(1);
+
+    engine.stop();
+    engine.start();
+    expect(engine.getActivePowerUps()).toEqual([]);
+  });
+});
@@ -0,0 +1,308 @@
+/**
+ * Replay Tests - Input recording and frame-for-frame playback
+ */
+
+import { describe, it, expect, afterEach } from "bun:test";
+import { GameEngine } from "../../src/game/GameEngine";
+import {
+  ReplayRecorder,
+  encodeInput,
+  decodeInput,
+  serializeReplay,
+  parseReplay,
+} from "../../src/game/utils/ReplayRecorder";
+import { ReplayPlayer } from "../../src/game/utils/ReplayPlayer";
+import type {
+  GameEngineConfig,
+  InputState,
+} from "../../src/game/types/GameTypes";
+
+// Mock DOM environment
+import "../test-setup";
+
+function createEngine(overrides: Partial<GameEngineConfig> = {}): GameEngine {
+  const engine = new GameEngine({
+    width: 240,
+    height: 216,
+    targetFPS: 60,
+    gravity: 0.8,
+    jumpPower: -12,
+    gameSpeed: 4,
+    spawnRate: 0.05,
+    headless: true,
+    audio: {
+      enabled: false,
+      volume: 0,
+      frequencies: {
+        jump: 400,
+        collect: 800,
+        gameOver: 200,
+        background: [100, 150, 200],
+      },
+    },
+    render: {
+      pixelated: true,
+      doubleBuffering: false,
+      showFPS: false,
+      showHitboxes: false,
+    },
+    ...overrides,
+  });
+  engine.initialize();
+  return engine;
+}
+
+function idleInput(): InputState {
+  return {
+    left: false,
+    right: false,
+    up: false,
+    down: false,
+    space: false,
+    pause: false,
+  };
+}
+
+/**
+ * Step a headless run and trace each frame
+ */
+function runFrames(engine: GameEngine, frames: number): string[] {
+  const raw = engine as any;
+
+  const trace: string[] = [];
+  for (let i = 0; i < frames && engine.step() > 0; i++) {
+    const obstacles = raw.obstacles
+      .getActive()
+      .map((o: any) => `${o.position.x},${o.position.y}`)
+      .join("|");
+    trace.push(
+      `${raw.state.frameCount}:${raw.player.position.x},${raw.player.position.y}:${engine.getScore()}:${obstacles}`,
+    );
+  }
+  return trace;
+}
+
+describe("Replay encoding", () => {
+  it("round-trips input state through a bitmask", () => {
+    const input = { ...idleInput(), left: true, space: true };
+    expect(decodeInput(encodeInput(input))).toEqual(input);
+  });
+
+  it("leaves pause out of the recording", () => {
+    const input = { ...idleInput(), pause: true };
+    expect(encodeInput(input)).toBe(0);
+  });
+
+  it("run-length encodes repeated input", () => {
+    const recorder = new ReplayRecorder();
+    recorder.start(1, createEngine().getGameConfig());
+
+    recorder.record(idleInput());
+    recorder.record(idleInput());
+    recorder.record(idleInput());
+    recorder.record({ ...idleInput(), space: true });
+
+    const replay = recorder.stop(0);
+    expect(replay.frames).toBe(4);
+    expect(replay.inputs).toEqual([
+      [3, 0],
+      [1, encodeInput({ ...idleInput(), space: true })],
+    ]);
+  });
+
+  it("serializes and parses replays", () => {
+    const recorder = new ReplayRecorder();
+    recorder.start(5, createEngine().getGameConfig());
+    recorder.record({ ...idleInput(), right: true });
+    const replay = recorder.stop(10);
+
+    expect(parseReplay(serializeReplay(replay))).toEqual(replay);
+  });
+
+  it("rejects malformed replays", () => {
+    expect(parseReplay("not json")).toBeNull();
+    expect(parseReplay(JSON.stringify({ version: 1 }))).toBeNull();
+    expect(
+      parseReplay(
+        JSON.stringify({
+          version: 1,
+          seed: 1,
+          frames: 1,
+          config: {},
+          inputs: [["x", 0]],
+        }),
+      ),
+    ).toBeNull();
+  });
+});
+
+describe("ReplayPlayer", () => {
+  const engines: GameEngine[] = [];
+
+  afterEach(() => {
+    engines.splice(0).forEach((engine) => engine.destroy());
+  });
+
+  it("reproduces a recorded run frame for frame", () => {
+    const recording = createEngine();
+    const playback = createEngine();
+    engines.push(recording, playback);
+
+    // Scripted player: hop regularly and drift right now and then
+    let frame = 0;
+    recording.setInputSource(() => {
+      frame++;
+      return {
+        ...idleInput(),
+        space: frame % 45 < 3,
+        right: frame % 200 > 150,
+      };
+    });
+    recording.setSeed(2024);
+    recording.start();
+    const recordedTrace = runFrames(recording, 1200);
+    if (recording.getGameState().isRunning) recording.stop();
+
+    const replay = recording.getLastReplay();
+    expect(replay).not.toBeNull();
+    expect(replay!.seed).toBe(2024);
+    expect(replay!.frames).toBe(recordedTrace.length);
+
+    const player = new ReplayPlayer(replay!);
+    player.play(playback);
+    const playbackTrace = runFrames(playback, replay!.frames);
+
+    expect(playback.getSeed()).toBe(2024);
+    expect(playbackTrace).toEqual(recordedTrace);
+    expect(player.isFinished()).toBe(true);
+  });
+
+  it("returns idle input once the replay is exhausted", () => {
+    const recorder = new ReplayRecorder();
+    recorder.start(1, createEngine().getGameConfig());
+    recorder.record({ ...idleInput(), space: true });
+
+    const player = new ReplayPlayer(recorder.stop(0));
+    expect(player.next().space).toBe(true);
+    expect(player.isFinished()).toBe(true);
+    expect(player.next()).toEqual(idleInput());
+  });
+
+  it("hands input back and restores the seed on game over", () => {
+    const recording = createEngine();
+    const playback = createEngine();
+    engines.push(recording, playback);
+
+    recording.start();
+    runFrames(recording, 10);
+    recording.stop();
+
+    const player = new ReplayPlayer(recording.getLastReplay()!);
+    player.play(playback);
+    expect((playback as any).inputSource).not.toBeNull();
+
+    playback.stop();
+    expect((playback as any).inputSource).toBeNull();
+    expect(playback.getPinnedSeed()).toBeNull();
+  });
+
+  it("doesn't record played-back runs", () => {
+    const recording = createEngine();
+    const playback = createEngine();
+    engines.push(recording, playback);
+
+    recording.start();
+    runFrames(recording, 60);
+    recording.stop();
+    const replay = recording.getLastReplay()!;
+
+    // The live run that playback interrupts still counts
+    playback.start();
+    runFrames(playback, 30);
+    const player = new ReplayPlayer(replay);
+    player.play(playback);
+    const liveReplay = playback.getLastReplay();
+    expect(liveReplay!.frames).toBe(30);
+
+    runFrames(playback, replay.frames);
+    if (playback.getGameState().isRunning) playback.stop();
+
+    expect(playback.getStats().runs).toBe(1);
+    expect(playback.getLastReplay()).toBe(liveReplay);
+    expect(playback.getBestRun()!.frames).toBe(30);
+    expect((playback as any).recorder.isRecording()).toBe(false);
+  });
+
+  it("round-trips non-default tuning through the recorded config", () => {
+    const tuning = { powerUpChance: 0.6, distanceScoreInterval: 10 };
+    const recording = createEngine(tuning);
+    const playback = createEngine(tuning);
+    const defaults = createEngine();
+    engines.push(recording, playback, defaults);
+
+    recording.setSeed(77);
+    recording.start();
+    const recordedTrace = runFrames(recording, 600);
+    if (recording.getGameState().isRunning) recording.stop();
+
+    const replay = parseReplay(serializeReplay(recording.getLastReplay()!))!;
+    expect(replay.config).toMatchObject(tuning);
+
+    const player = new ReplayPlayer(replay);
+    expect(player.isCompatible(defaults.getGameConfig())).toBe(false);
+    expect(player.isCompatible(playback.getGameConfig())).toBe(true);
+
+    player.play(playback);
+    expect(runFrames(playback, replay.frames)).toEqual(recordedTrace);
+  });
+
+  it("plays back on the recorded difficulty, then restores the preset", () => {
+    const recording = createEngine();
+    const playback = createEngine();
+    engines.push(recording, playback);
+
+    recording.setSeed(31);
+    recording.start();
+    const recordedTrace = runFrames(recording, 900);
+    if (recording.getGameState().isRunning) recording.stop();
+    const replay = recording.getLastReplay()!;
+
+    playback.updateSettings({ difficulty: "hard" });
+    const hardConfig = playback.getGameConfig();
+    const player = new ReplayPlayer(replay);
+    expect(player.play(playback)).toBe(true);
+    expect(runFrames(playback, replay.frames)).toEqual(recordedTrace);
+
+    if (playback.getGameState().isRunning) playback.stop();
+    expect(playback.getGameConfig()).toEqual(hardConfig);
+  });
+
+  it("refuses to play on an engine it can't reproduce", () => {
+    const recording = createEngine();
+    const playback = createEngine({ gravity: 1 });
+    engines.push(recording, playback);
+
+    recording.start();
+    runFrames(recording, 10);
+    recording.stop();
+
+    const player = new ReplayPlayer(recording.getLastReplay()!);
+    expect(player.play(playback)).toBe(false);
+    expect(player.simulate(playback)).toBeNull();
+    expect(playback.getGameState().isRunning).toBe(false);
+  });
+
+  it("detects config mismatches", () => {
+    const recorder = new ReplayRecorder();
+    const engine = createEngine();
+    engines.push(engine);
+
+    recorder.start(1, { ...engine.getGameConfig(), gravity: 2 });
+    const player = new ReplayPlayer(recorder.stop(0));
+
+    expect(player.isCompatible(engine.getGameConfig())).toBe(false);
+    expect(player.isCompatible({ ...engine.getGameConfig(), gravity: 2 })).toBe(
+      true,
+    );
+  });
+});
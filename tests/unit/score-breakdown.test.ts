@@ -0,0 +1,124 @@
+/**
+ * Score Breakdown Tests - Distance points alongside collectibles and bonuses
+ */
+
+import { describe, it, expect, afterEach } from "bun:test";
+import { GameEngine } from "../../src/game/GameEngine";
+import type { GameConfig, GameEvent } from "../../src/game/types/GameTypes";
+
+// Mock DOM environment
+import "../test-setup";
+
+function createEngine(config: Partial<GameConfig> = {}): GameEngine {
+  const engine = new GameEngine({
+    width: 240,
+    height: 216,
+    targetFPS: 60,
+    gravity: 0.8,
+    jumpPower: -12,
+    gameSpeed: 4,
+    spawnRate: 0,
+    difficulty: { maxGameSpeed: 4, maxSpawnRate: 0 },
+    seed: 14,
+    headless: true,
+    audio: {
+      enabled: false,
+      volume: 0,
+      frequencies: {
+        jump: 400,
+        collect: 800,
+        gameOver: 200,
+        background: [100, 150, 200],
+      },
+    },
+    render: {
+      pixelated: true,
+      doubleBuffering: false,
+      showFPS: false,
+      showHitboxes: false,
+    },
+    ...config,
+  });
+  engine.initialize();
+  engine.start();
+  return engine;
+}
+
+describe("Distance scoring", () => {
+  let engine: GameEngine;
+
+  afterEach(() => {
+    engine.destroy();
+  });
+
+  it("scores a survival run with nothing collected", () => {
+    engine = createEngine();
+    engine.step(600);
+
+    const state = engine.getGameState();
+    expect(state.distance).toBe(2400);
+    expect(state.score).toBe(96);
+    expect(state.scoreBreakdown).toEqual({
+      distance: 96,
+      collectibles: 0,
+      bonuses: 0,
+    });
+  });
+
+  it("uses the configured distance interval", () => {
+    engine = createEngine({ distanceScoreInterval: 100 });
+    engine.step(600);
+
+    expect(engine.getGameState().scoreBreakdown.distance).toBe(24);
+  });
+
+  it("keeps the parts adding up to the score", () => {
+    engine = createEngine();
+    (engine as any).spawnCollectible("star", 52, 176);
+    engine.step(100);
+    engine.addScore(5);
+
+    const { score, scoreBreakdown } = engine.getGameState();
+    expect(scoreBreakdown.collectibles).toBe(25);
+    expect(scoreBreakdown.bonuses).toBe(5);
+    expect(
+      scoreBreakdown.distance +
+        scoreBreakdown.collectibles +
+        scoreBreakdown.bonuses,
+    ).toBe(score);
+  });
+
+  it("hands out copies of the breakdown", () => {
+    engine = createEngine();
+    engine.step(30);
+    engine.getGameState().scoreBreakdown.distance = 9999;
+
+    expect(engine.getGameState().scoreBreakdown.distance).toBeLessThan(9999);
+  });
+
+  it("includes the breakdown in the gameover event", () => {
+    engine = createEngine();
+    const events: GameEvent[] = [];
+    engine.addEventListener("gameover", (event) => events.push(event));
+    engine.step(100);
+    engine.stop();
+
+    expect(events[0].data.breakdown).toEqual(
+      engine.getGameState().scoreBreakdown,
+    );
+    expect(events[0].data.score).toBe(16);
+  });
+
+  it("starts each run from zero", () => {
+    engine = createEngine();
+    engine.step(100);
+    engine.stop();
+    engine.start();
+
+    expect(engine.getGameState().scoreBreakdown).toEqual({
+      distance: 0,
+      collectibles: 0,
+      bonuses: 0,
+    });
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Score Card Tests - Framed PNG cards and share text for finished runs
+ */
+
+import { describe, it, expect, afterEach } from "bun:test";
+import {
+  createScoreCard,
+  formatShareText,
+  getScoreCardFilename,
+  getScoreCardSize,
+  renderScoreCard,
+  shareScoreCard,
+} from "../../src/game/share/ScoreCard";
+import type { ScoreCardData } from "../../src/game/share/ScoreCard";
+import { getDailyKey } from "../../src/game/daily/DailyChallenge";
+import { GameEngine } from "../../src/game/GameEngine";
+
+// Mock DOM environment
+import "../test-setup";
+
+const RUN: ScoreCardData = { score: 420, date: "2026-03-09", mode: "endless" };
+
+/**
+ * 2D context stand-in that records text and image draws
+ */
+function createRecordingContext() {
+  const texts: string[] = [];
+  const images: number[][] = [];
+  const ctx = {
+    fillRect: () => {},
+    strokeRect: () => {},
+    fillText: (text: string) => texts.push(text),
+    drawImage: (_source: unknown, ...rect: number[]) => images.push(rect),
+    imageSmoothingEnabled: true,
+    fillStyle: "",
+    strokeStyle: "",
+    lineWidth: 1,
+    font: "",
+    textAlign: "left",
+    textBaseline: "top",
+  };
+  return { ctx, texts, images };
+}
+
+describe("Score cards", () => {
+  it("formats share text with the date and score", () => {
+    expect(formatShareText(RUN)).toBe("Code Runner 2026-03-09: 420 pts");
+    expect(formatShareText({ ...RUN, mode: "daily" })).toBe(
+      "Code Runner Daily 2026-03-09: 420 pts",
+    );
+  });
+
+  it("frames the game canvas at twice its size", () => {
+    expect(getScoreCardSize({ width: 240, height: 216 })).toEqual({
+      width: 512,
+      height: 532,
+    });
+  });
+
+  it("draws the screenshot pixelated with score, date and mode", () => {
+    const { ctx, texts, images } = createRecordingContext();
+    const source = { width: 240, height: 216 } as any;
+
+    renderScoreCard(ctx as any, source, { ...RUN, mode: "daily" });
+
+    expect(ctx.imageSmoothingEnabled).toBe(false);
+    expect(images).toEqual([[16, 36, 480, 432]]);
+    expect(texts).toEqual(["CODE RUNNER", "SCORE 0420", "2026-03-09 - DAILY"]);
+  });
+
+  it("renders onto a new canvas sized for the card", () => {
+    const source = document.createElement("canvas");
+    const card = createScoreCard(source, RUN)!;
+
+    expect(card.width).toBe(512);
+    expect(card.height).toBe(532);
+  });
+
+  it("names downloads after the mode and date", () => {
+    expect(getScoreCardFilename(RUN)).toBe(
+      "code-runner-endless-2026-03-09.png",
+    );
+  });
+
+  it("reports sharing as unsupported without the Web Share API", async () => {
+    const card = document.createElement("canvas");
+    expect(await shareScoreCard(card, RUN)).toBe("unsupported");
+  });
+});
+
+describe("GameEngine score cards", () => {
+  let engine: GameEngine;
+
+  afterEach(() => {
+    engine.destroy();
+  });
+
+  it("describes the last run for its score card", () => {
+    engine = new GameEngine({
+      width: 240,
+      height: 216,
+      targetFPS: 60,
+      gravity: 0.8,
+      jumpPower: -12,
+      gameSpeed: 4,
+      spawnRate: 0,
+      seed: 19,
+      headless: true,
+      audio: {
+        enabled: false,
+        volume: 0,
+        frequencies: {
+          jump: 400,
+          collect: 800,
+          gameOver: 200,
+          background: [100, 150, 200],
+        },
+      },
+      render: {
+        pixelated: true,
+        doubleBuffering: false,
+        showFPS: false,
+        showHitboxes: false,
+      },
+    });
+    engine.initialize();
+    engine.start();
+    engine.step(100);
+    engine.stop();
+
+    const data = engine.getScoreCardData();
+    expect(data).toEqual({
+      score: engine.getScore(),
+      date: getDailyKey(),
+      mode: "endless",
+    });
+    expect(engine.getShareText()).toBe(formatShareText(data));
+    // Headless engines have no canvas to take a picture of
+    expect(engine.createScoreCard()).toBeNull();
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Seeded RNG Tests - Deterministic randomness for reproducible runs
+ */
+
+import { describe, it, expect, afterEach } from "bun:test";
+import { SeededRandom } from "../../src/game/utils/SeededRandom";
+import { GameEngine } from "../../src/game/GameEngine";
+
+// Mock DOM environment
+import "../test-setup";
+
+function createEngine(seed?: number): GameEngine {
+  const engine = new GameEngine({
+    width: 240,
+    height: 216,
+    targetFPS: 60,
+    gravity: 0.8,
+    jumpPower: -12,
+    gameSpeed: 4,
+    spawnRate: 0.05,
+    headless: true,
+    seed,
+    audio: {
+      enabled: false,
+      volume: 0,
+      frequencies: {
+        jump: 400,
+        collect: 800,
+        gameOver: 200,
+        background: [100, 150, 200],
+      },
+    },
+    render: {
+      pixelated: true,
+      doubleBuffering: false,
+      showFPS: false,
+      showHitboxes: false,
+    },
+  });
+  engine.initialize();
+  return engine;
+}
+
+/**
+ * Step a headless run and capture every spawn position for comparison
+ */
+function captureSpawns(engine: GameEngine, frames: number): string[] {
+  const raw = engine as any;
+  const spawns: string[] = [];
+
+  engine.start();
+  for (let i = 0; i < frames && engine.step() > 0; i++) {
+    for (const obstacle of raw.obstacles.getActive()) {
+      spawns.push(
+        `o:${obstacle.obstacleType}:${obstacle.position.x}:${obstacle.position.y}`,
+      );
+    }
+    for (const collectible of raw.collectibles.getActive()) {
+      spawns.push(
+        `c:${collectible.collectibleType}:${collectible.position.x.toFixed(3)}:${collectible.position.y.toFixed(3)}`,
+      );
+    }
+  }
+
+  return spawns;
+}
+
+describe("SeededRandom", () => {
+  it("produces the same sequence for the same seed", () => {
+    const a = new SeededRandom(1234);
+    const b = new SeededRandom(1234);
+
+    for (let i = 0; i < 100; i++) {
+      expect(a.next()).toBe(b.next());
+    }
+  });
+
+  it("produces different sequences for different seeds", () => {
+    const a = new SeededRandom(1);
+    const b = new SeededRandom(2);
+
+    const seqA = Array.from({ length: 10 }, () => a.next());
+    const seqB = Array.from({ length: 10 }, () => b.next());
+    expect(seqA).not.toEqual(seqB);
+  });
+
+  it("keeps values within the requested bounds", () => {
+    const rng = new SeededRandom(99);
+
+    for (let i = 0; i < 1000; i++) {
+      const value = rng.next();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+
+      const int = rng.int(3, 5);
+      expect(int).toBeGreaterThanOrEqual(3);
+      expect(int).toBeLessThanOrEqual(5);
+    }
+  });
+
+  it("rewinds to the start of the sequence on reset", () => {
+    const rng = new SeededRandom(42);
+    const first = [rng.next(), rng.next(), rng.next()];
+
+    rng.reset();
+    expect([rng.next(), rng.next(), rng.next()]).toEqual(first);
+  });
+
+  it("normalizes seeds to unsigned 32-bit integers", () => {
+    expect(new SeededRandom(-1).getSeed()).toBe(0xffffffff);
+    expect(new SeededRandom(12.7).getSeed()).toBe(12);
+    expect(new SeededRandom(NaN).getSeed()).toBe(0);
+  });
+});
+
+describe("GameEngine seeded spawning", () => {
+  const engines: GameEngine[] = [];
+
+  afterEach(() => {
+    engines.splice(0).forEach((engine) => engine.destroy());
+  });
+
+  it("reproduces the same spawns for the same seed", () => {
+    const a = createEngine(777);
+    const b = createEngine(777);
+    engines.push(a, b);
+
+    const spawnsA = captureSpawns(a, 600);
+    const spawnsB = captureSpawns(b, 600);
+
+    expect(spawnsA.length).toBeGreaterThan(0);
+    expect(spawnsA).toEqual(spawnsB);
+  });
+
+  it("diverges for different seeds", () => {
+    const a = createEngine(1);
+    const b = createEngine(2);
+    engines.push(a, b);
+
+    expect(captureSpawns(a, 600)).not.toEqual(captureSpawns(b, 600));
+  });
+
+  it("reports the pinned seed in the game state", () => {
+    const engine = createEngine(4242);
+    engines.push(engine);
+
+    engine.start();
+    expect(engine.getSeed()).toBe(4242);
+    expect(engine.getGameState().seed).toBe(4242);
+  });
+
+  it("picks a fresh seed per run when none is pinned", () => {
+    const engine = createEngine();
+    engines.push(engine);
+
+    const seeds = new Set<number>();
+    for (let i = 0; i < 5; i++) {
+      engine.restart();
+      seeds.add(engine.getSeed());
+    }
+    expect(seeds.size).toBeGreaterThan(1);
+  });
+
+  it("pins a seed at runtime with setSeed", () => {
+    const engine = createEngine();
+    engines.push(engine);
+
+    engine.setSeed(31337);
+    engine.restart();
+    expect(engine.getSeed()).toBe(31337);
+
+    engine.setSeed(null);
+    engine.restart();
+    expect(engine.getSeed()).not.toBe(31337);
+  });
+});
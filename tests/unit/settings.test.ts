@@ -0,0 +1,169 @@
+/**
+ * Settings Tests - Persisted player preferences and live updates
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import {
+  applySettingsToConfig,
+  DEFAULT_SETTINGS,
+  loadSettings,
+  sanitizeSettings,
+  saveSettings,
+  SETTINGS_KEY,
+} from "../../src/game/settings/Settings";
+import { GameEngine } from "../../src/game/GameEngine";
+import type {
+  GameEngineConfig,
+  GameSettings,
+} from "../../src/game/types/GameTypes";
+
+// Mock DOM environment
+import "../test-setup";
+
+function createConfig(overrides: Partial<GameEngineConfig> = {}) {
+  return {
+    width: 240,
+    height: 216,
+    targetFPS: 60,
+    gravity: 0.8,
+    jumpPower: -12,
+    gameSpeed: 4,
+    spawnRate: 0.02,
+    headless: true,
+    audio: {
+      enabled: true,
+      volume: 0.3,
+      frequencies: {
+        jump: 400,
+        collect: 800,
+        gameOver: 200,
+        background: [100, 150, 200],
+      },
+    },
+    render: {
+      pixelated: true,
+      doubleBuffering: false,
+      showFPS: false,
+      showHitboxes: false,
+    },
+    ...overrides,
+  } as GameEngineConfig;
+}
+
+describe("Settings", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("keeps valid fields and falls back to defaults", () => {
+    const settings = sanitizeSettings(
+      { volume: 4, muted: "yes", showFPS: true, difficulty: "brutal" },
+      DEFAULT_SETTINGS,
+    );
+
+    expect(settings).toEqual({ ...DEFAULT_SETTINGS, volume: 1, showFPS: true });
+    expect(sanitizeSettings(null, DEFAULT_SETTINGS)).toEqual(DEFAULT_SETTINGS);
+  });
+
+  it("scales spawns and ramp by difficulty preset", () => {
+    const config = createConfig();
+    const easy = applySettingsToConfig(config, {
+      ...DEFAULT_SETTINGS,
+      difficulty: "easy",
+    });
+    const hard = applySettingsToConfig(config, {
+      ...DEFAULT_SETTINGS,
+      difficulty: "hard",
+    });
+
+    expect(easy.spawnRate).toBeLessThan(config.spawnRate);
+    expect(hard.spawnRate).toBeGreaterThan(config.spawnRate);
+    expect(hard.difficulty!.maxGameSpeed).toBeGreaterThan(
+      easy.difficulty!.maxGameSpeed!,
+    );
+    // The input config is left alone
+    expect(config.spawnRate).toBe(0.02);
+  });
+
+  it("round-trips through storage", () => {
+    const settings: GameSettings = {
+      ...DEFAULT_SETTINGS,
+      volume: 0.6,
+      reducedMotion: true,
+      difficulty: "hard",
+    };
+    saveSettings(settings);
+
+    expect(loadSettings()).toEqual(settings);
+  });
+});
+
+describe("GameEngine settings", () => {
+  let engine: GameEngine;
+
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    engine.destroy();
+  });
+
+  it("applies settings passed in the config", () => {
+    engine = new GameEngine(
+      createConfig({
+        settings: { ...DEFAULT_SETTINGS, volume: 0.8, muted: true },
+      }),
+    );
+    const audio = engine.getAudioSystem();
+
+    expect(audio.getVolume()).toBe(0.8);
+    expect((audio as any).config.enabled).toBe(false);
+    expect(engine.getSettings().muted).toBe(true);
+  });
+
+  it("describes the config when created without settings", () => {
+    engine = new GameEngine(createConfig());
+    expect(engine.getSettings()).toEqual({
+      ...DEFAULT_SETTINGS,
+      volume: 0.3,
+    });
+  });
+
+  it("changes audio and display live", () => {
+    engine = new GameEngine(createConfig());
+    engine.updateSettings({
+      volume: 0.5,
+      muted: true,
+      showHitboxes: true,
+      reducedMotion: true,
+    });
+
+    const audio = engine.getAudioSystem();
+    expect(audio.getVolume()).toBe(0.5);
+    expect((audio as any).config.enabled).toBe(false);
+    expect((engine as any).renderSystem.config).toMatchObject({
+      showHitboxes: true,
+      reducedMotion: true,
+    });
+  });
+
+  it("applies a new difficulty from the next run", () => {
+    engine = new GameEngine(createConfig());
+    engine.initialize();
+    engine.start();
+    engine.updateSettings({ difficulty: "hard" });
+    engine.updateSettings({ difficulty: "hard" });
+
+    // Presets are applied to the original config, never compounded
+    expect(engine.getGameConfig().spawnRate).toBeCloseTo(0.025);
+    engine.restart();
+    expect(engine.getGameConfig().difficulty!.maxGameSpeed).toBe(14);
+  });
+
+  it("doesn't save settings from headless engines", () => {
+    engine = new GameEngine(createConfig());
+    engine.updateSettings({ volume: 0.9 });
+    expect(localStorage.getItem(SETTINGS_KEY)).toBeNull();
+  });
+});
@@ -0,0 +1,271 @@
+/**
+ * Spawn Planner Tests - Generated obstacle sequences are always clearable
+ */
+
+import { describe, it, expect, afterEach } from "bun:test";
+import { PhysicsSystem } from "../../src/game/systems/PhysicsSystem";
+import { SpawnPlanner } from "../../src/game/systems/SpawnPlanner";
+import type { PlannedObstacle } from "../../src/game/systems/SpawnPlanner";
+import { SeededRandom } from "../../src/game/utils/SeededRandom";
+import { GameEngine } from "../../src/game/GameEngine";
+import { TUTORIAL_STAGES } from "../../src/game/stages/tutorial";
+
+// Mock DOM environment
+import "../test-setup";
+
+const SCREEN_WIDTH = 240;
+const PLAYER_X = 50;
+const PLAYER_WIDTH = 20;
+
+function createPlanner(physics = new PhysicsSystem(0.8)): SpawnPlanner {
+  return new SpawnPlanner(physics, {
+    jumpPower: -12,
+    playerWidth: PLAYER_WIDTH,
+  });
+}
+
+/**
+ * Exhaustively search jump timings for a way through the sequence.
+ * Obstacles scroll left at a constant speed; the player only chooses
+ * when to jump while standing on the ground.
+ */
+function canSurvive(
+  obstacles: PlannedObstacle[],
+  gameSpeed: number,
+  arc: number[],
+): boolean {
+  const furthest = Math.max(...obstacles.map((o) => o.x + o.width));
+  const lastFrame = Math.ceil((furthest - PLAYER_X) / gameSpeed) + 1;
+  const memo = new Map<number, boolean>();
+
+  const collides = (frame: number, height: number) =>
+    obstacles.some((o) => {
+      const left = o.x - gameSpeed * frame;
+      return (
+        left < PLAYER_X + PLAYER_WIDTH &&
+        left + o.width > PLAYER_X &&
+        height < o.height
+      );
+    });
+
+  const fromGround = (frame: number): boolean => {
+    if (frame >= lastFrame) return true;
+    if (memo.has(frame)) return memo.get(frame)!;
+
+    // Keep running
+    let survived = !collides(frame + 1, 0) && fromGround(frame + 1);
+
+    // Or jump now
+    if (!survived) {
+      let clear = true;
+      for (let k = 1; k <= arc.length; k++) {
+        if (collides(frame + k, arc[k - 1])) {
+          clear = false;
+          break;
+        }
+      }
+      survived = clear && fromGround(frame + arc.length);
+    }
+
+    memo.set(frame, survived);
+    return survived;
+  };
+
+  return fromGround(0);
+}
+
+/**
+ * Run the planner the way the engine does and record every spawn,
+ * converted to positions at frame 0
+ */
+function generateSequence(
+  seed: number,
+  gameSpeed: number,
+  frames: number,
+): PlannedObstacle[] {
+  const planner = createPlanner();
+  const rng = new SeededRandom(seed);
+  const spawned: Array<{ frame: number }> = [];
+
+  for (let frame = 0; frame < frames; frame++) {
+    const rightmost = spawned.length
+      ? Math.max(
+          ...spawned.map((s) => SCREEN_WIDTH - gameSpeed * (frame - s.frame)),
+        ) + 16
+      : -Infinity;
+    const range = planner.getGapRange(gameSpeed, 16, 20);
+    if (planner.shouldSpawn(rng, SCREEN_WIDTH - rightmost, range, 0.5)) {
+      spawned.push({ frame });
+    }
+  }
+
+  return spawned.map((s) => ({
+    x: SCREEN_WIDTH + gameSpeed * s.frame,
+    width: 16,
+    height: 20,
+  }));
+}
+
+describe("PhysicsSystem jump arc", () => {
+  it("matches the player's integration", () => {
+    const arc = new PhysicsSystem(0.8).getJumpArc(-12);
+
+    expect(arc[0]).toBeCloseTo(11.2, 5);
+    expect(arc[1]).toBeCloseTo(21.6, 5);
+    expect(arc[arc.length - 1]).toBe(0);
+    expect(new PhysicsSystem(0.8).getAirTime(-12)).toBe(29);
+  });
+
+  it("has no arc without an upward jump", () => {
+    expect(new PhysicsSystem(0.8).getJumpArc(0)).toEqual([]);
+  });
+});
+
+describe("SpawnPlanner", () => {
+  it("describes the jump at a given speed", () => {
+    const profile = createPlanner().getJumpProfile(4, 20);
+
+    expect(profile.airFrames).toBe(29);
+    expect(profile.clearStart).toBe(2);
+    expect(profile.clearEnd).toBe(27);
+    expect(profile.clearDistance).toBe(26 * 4);
+    expect(profile.airDistance).toBe(29 * 4);
+  });
+
+  it("scales gaps with speed", () => {
+    const planner = createPlanner();
+    const slow = planner.getGapRange(4, 16, 20);
+    const fast = planner.getGapRange(10, 16, 20);
+
+    expect(fast.min).toBeGreaterThan(slow.min);
+    expect(fast.max).toBeGreaterThan(slow.max);
+    expect(slow.max).toBeGreaterThan(slow.min);
+  });
+
+  it("never lowers the designer's minimum gap", () => {
+    expect(createPlanner().getGapRange(4, 16, 20, 500).min).toBe(500);
+  });
+
+  it("only rolls the spawn chance inside the fair range", () => {
+    const planner = createPlanner();
+    const rng = new SeededRandom(1);
+    const range = planner.getGapRange(4, 16, 20);
+
+    expect(planner.shouldSpawn(rng, range.min - 1, range, 1)).toBe(false);
+    expect(planner.shouldSpawn(rng, range.min, range, 1)).toBe(true);
+    expect(planner.shouldSpawn(rng, range.max, range, 0.0001)).toBe(true);
+    expect(planner.shouldSpawn(rng, range.max, range, 0)).toBe(false);
+  });
+
+  it("rejects clusters too long to jump", () => {
+    const planner = createPlanner();
+    const arc = new PhysicsSystem(0.8).getJumpArc(-12);
+    const wall: PlannedObstacle[] = [
+      { x: 300, width: 16, height: 20 },
+      { x: 336, width: 16, height: 20 },
+      { x: 372, width: 16, height: 20 },
+      { x: 408, width: 16, height: 20 },
+    ];
+
+    expect(canSurvive(wall, 4, arc)).toBe(false);
+    expect(planner.isSequenceClearable(wall, 4)).toBe(false);
+  });
+
+  it("accepts obstacles close enough to clear together", () => {
+    const planner = createPlanner();
+    const arc = new PhysicsSystem(0.8).getJumpArc(-12);
+    const pair: PlannedObstacle[] = [
+      { x: 300, width: 16, height: 20 },
+      { x: 340, width: 16, height: 20 },
+    ];
+
+    expect(canSurvive(pair, 4, arc)).toBe(true);
+    expect(planner.isSequenceClearable(pair, 4)).toBe(true);
+  });
+
+  for (const gameSpeed of [4, 7, 12]) {
+    it(`only generates clearable sequences at speed ${gameSpeed}`, () => {
+      const planner = createPlanner();
+      const arc = new PhysicsSystem(0.8).getJumpArc(-12);
+
+      for (let seed = 1; seed <= 25; seed++) {
+        const sequence = generateSequence(seed, gameSpeed, 900);
+        expect(sequence.length).toBeGreaterThan(3);
+        expect(planner.isSequenceClearable(sequence, gameSpeed)).toBe(true);
+        expect(canSurvive(sequence, gameSpeed, arc)).toBe(true);
+      }
+    });
+  }
+
+  it("keeps the handcrafted tutorial waves clearable", () => {
+    const planner = createPlanner();
+
+    for (const stage of TUTORIAL_STAGES) {
+      let speed = stage.gameSpeed ?? 4;
+      for (const wave of stage.waves) {
+        speed = wave.gameSpeed ?? speed;
+        const obstacles = (wave.obstacles || []).map((o) => ({
+          x: SCREEN_WIDTH + (o.offsetX || 0),
+          width: 16,
+          height: 20,
+        }));
+        expect(planner.isSequenceClearable(obstacles, speed)).toBe(true);
+      }
+    }
+  });
+});
+
+describe("GameEngine fair spawning", () => {
+  let engine: GameEngine;
+
+  afterEach(() => {
+    engine.destroy();
+  });
+
+  it("never spawns random obstacles inside the unfair range", () => {
+    engine = new GameEngine({
+      width: SCREEN_WIDTH,
+      height: 216,
+      targetFPS: 60,
+      gravity: 0.8,
+      jumpPower: -12,
+      gameSpeed: 4,
+      spawnRate: 0.5,
+      difficulty: { minObstacleGap: { start: 0, end: 0 } },
+      seed: 11,
+      headless: true,
+      audio: {
+        enabled: false,
+        volume: 0,
+        frequencies: {
+          jump: 400,
+          collect: 800,
+          gameOver: 200,
+          background: [100, 150, 200],
+        },
+      },
+      render: {
+        pixelated: true,
+        doubleBuffering: false,
+        showFPS: false,
+        showHitboxes: false,
+      },
+    });
+    engine.initialize();
+    const raw = engine as any;
+    raw.checkCollisions = () => {};
+
+    const planner = createPlanner();
+    engine.start();
+    for (let i = 0; i < 600; i++) {
+      engine.step();
+      const speed = engine.getGameState().gameSpeed;
+      const obstacles = raw.obstacles.getActive().map((o: any) => ({
+        x: o.position.x,
+        width: o.size.width,
+        height: o.size.height,
+      }));
+      expect(planner.isSequenceClearable(obstacles, speed)).toBe(true);
+    }
+  });
+});
@@ -0,0 +1,270 @@
+/**
+ * Stage System Tests - Data-driven waves, speed changes and transitions
+ */
+
+import { describe, it, expect, afterEach } from "bun:test";
+import { GameEngine } from "../../src/game/GameEngine";
+import { StageSystem, parseStages } from "../../src/game/systems/StageSystem";
+import { TUTORIAL_STAGES } from "../../src/game/stages/tutorial";
+import type {
+  GameEvent,
+  StageDefinition,
+} from "../../src/game/types/GameTypes";
+
+// Mock DOM environment
+import "../test-setup";
+
+const STEP = 1000 / 60;
+
+const STAGES: StageDefinition[] = [
+  {
+    id: "one",
+    name: "Stage One",
+    gameSpeed: 3,
+    spawnRate: 0,
+    duration: 1000,
+    waves: [
+      { at: 500, obstacles: [{ type: "error" }] },
+      { at: 100, collectibles: [{ type: "star", height: 50, points: 99 }] },
+    ],
+  },
+  {
+    id: "two",
+    name: "Stage Two",
+    waves: [{ at: 200, gameSpeed: 6, obstacles: [{ type: "bug" }] }],
+  },
+];
+
+function createEngine(stages?: StageDefinition[]): GameEngine {
+  const engine = new GameEngine({
+    width: 240,
+    height: 216,
+    targetFPS: 60,
+    gravity: 0.8,
+    jumpPower: -12,
+    gameSpeed: 4,
+    spawnRate: 0.02,
+    stages,
+    seed: 1,
+    headless: true,
+    audio: {
+      enabled: false,
+      volume: 0,
+      frequencies: {
+        jump: 400,
+        collect: 800,
+        gameOver: 200,
+        background: [100, 150, 200],
+      },
+    },
+    render: {
+      pixelated: true,
+      doubleBuffering: false,
+      showFPS: false,
+      showHitboxes: false,
+    },
+  });
+  engine.initialize();
+  return engine;
+}
+
+/**
+ * Step a StageSystem until the given time and merge the updates
+ */
+function runUntil(system: StageSystem, ms: number) {
+  const seen = { obstacles: 0, collectibles: 0, entered: [] as string[] };
+  for (let t = 0; t < ms; t += STEP) {
+    const update = system.update(STEP);
+    seen.obstacles += update.obstacles.length;
+    seen.collectibles += update.collectibles.length;
+    if (update.enteredStage) seen.entered.push(update.enteredStage.id);
+  }
+  return seen;
+}
+
+describe("StageSystem", () => {
+  it("enters the first stage on the first update", () => {
+    const system = new StageSystem(STAGES);
+    const update = system.update(STEP);
+
+    expect(update.enteredStage?.id).toBe("one");
+    expect(update.gameSpeed).toBe(3);
+    expect(system.getSpawnRate(0.5)).toBe(0);
+  });
+
+  it("fires waves in time order regardless of definition order", () => {
+    const system = new StageSystem(STAGES);
+
+    const early = runUntil(system, 200);
+    expect(early.collectibles).toBe(1);
+    expect(early.obstacles).toBe(0);
+
+    const later = runUntil(system, 400);
+    expect(later.obstacles).toBe(1);
+  });
+
+  it("moves to the next stage after the duration", () => {
+    const system = new StageSystem(STAGES);
+    const seen = runUntil(system, 1100);
+
+    expect(seen.entered).toEqual(["one", "two"]);
+    expect(system.getCurrentStage()?.id).toBe("two");
+    expect(system.getSpawnRate(0.5)).toBe(0.5);
+  });
+
+  it("applies wave speed changes", () => {
+    const system = new StageSystem(STAGES);
+    runUntil(system, 1300);
+
+    expect(system.getSpeedOverride()).toBe(6);
+  });
+
+  it("completes after the last stage", () => {
+    const system = new StageSystem(STAGES);
+    let completed = false;
+    for (let t = 0; t < 3000; t += STEP) {
+      if (system.update(STEP).completed) completed = true;
+    }
+
+    expect(completed).toBe(true);
+    expect(system.isActive()).toBe(false);
+    expect(system.getSpeedOverride()).toBeNull();
+  });
+
+  it("follows explicit next links", () => {
+    const looping: StageDefinition[] = [
+      { id: "a", name: "A", duration: 100, waves: [], next: "a" },
+    ];
+    const system = new StageSystem(looping);
+    const seen = runUntil(system, 350);
+
+    expect(seen.entered).toEqual(["a", "a", "a", "a"]);
+  });
+
+  it("rewinds on reset", () => {
+    const system = new StageSystem(STAGES);
+    runUntil(system, 1100);
+    system.reset();
+
+    expect(system.getCurrentStage()).toBeNull();
+    expect(system.update(STEP).enteredStage?.id).toBe("one");
+  });
+
+  it("does nothing without stages", () => {
+    const system = new StageSystem();
+    const update = system.update(STEP);
+
+    expect(update.enteredStage).toBeNull();
+    expect(system.getSpawnRate(0.3)).toBe(0.3);
+  });
+});
+
+describe("parseStages", () => {
+  it("accepts valid stage data", () => {
+    const parsed = parseStages(JSON.parse(JSON.stringify(TUTORIAL_STAGES)));
+    expect(parsed).toEqual(TUTORIAL_STAGES);
+  });
+
+  it("drops malformed stages", () => {
+    const parsed = parseStages([
+      { id: "ok", name: "OK", waves: [] },
+      { id: "no-name", waves: [] },
+      { id: "bad-wave", name: "Bad", waves: [{ at: -1 }] },
+    ]);
+
+    expect(parsed.map((stage) => stage.id)).toEqual(["ok"]);
+  });
+
+  it("rejects non-array data", () => {
+    expect(parseStages({ stages: [] })).toEqual([]);
+  });
+});
+
+describe("GameEngine stages", () => {
+  const engines: GameEngine[] = [];
+
+  afterEach(() => {
+    engines.splice(0).forEach((engine) => engine.destroy());
+  });
+
+  it("spawns scripted placements instead of random ones", () => {
+    const engine = createEngine(STAGES);
+    engines.push(engine);
+    const raw = engine as any;
+
+    engine.start();
+    engine.step(Math.ceil(100 / STEP));
+
+    const collectibles = raw.collectibles.getActive();
+    expect(collectibles.length).toBe(1);
+    expect(collectibles[0].collectibleType).toBe("star");
+    expect(collectibles[0].points).toBe(99);
+    expect(raw.obstacles.getActive().length).toBe(0);
+
+    engine.step(Math.ceil(400 / STEP));
+    const obstacles = raw.obstacles.getActive();
+    expect(obstacles.length).toBe(1);
+    expect(obstacles[0].obstacleType).toBe("error");
+  });
+
+  it("keeps far-off placements until they scroll on screen", () => {
+    const engine = createEngine([
+      {
+        id: "far",
+        name: "Far",
+        gameSpeed: 3,
+        spawnRate: 0,
+        waves: [{ at: 0, obstacles: [{ type: "bug", offsetX: 150 }] }],
+      },
+    ]);
+    engines.push(engine);
+    const raw = engine as any;
+
+    engine.start();
+    engine.step(1);
+    const [obstacle] = raw.obstacles.getActive();
+    expect(obstacle.position.x).toBeGreaterThan(240 + 50);
+
+    engine.step(60);
+    expect(raw.obstacles.getActive()).toEqual([obstacle]);
+    expect(obstacle.position.x).toBeLessThan(240);
+  });
+
+  it("reports the current stage and emits stage events", () => {
+    const engine = createEngine(STAGES);
+    engines.push(engine);
+    const events: GameEvent[] = [];
+    engine.addEventListener("stage", (event) => events.push(event));
+
+    engine.start();
+    engine.step(1);
+    expect(engine.getGameState().stage).toBe("one");
+    expect(engine.getGameState().gameSpeed).toBe(3);
+
+    engine.step(Math.ceil(1000 / STEP));
+    expect(engine.getGameState().stage).toBe("two");
+    expect(events.map((event) => event.data.id)).toEqual(["one", "two"]);
+  });
+
+  it("restarts stages from the beginning", () => {
+    const engine = createEngine(STAGES);
+    engines.push(engine);
+
+    engine.start();
+    engine.step(Math.ceil(1000 / STEP));
+    engine.restart();
+
+    expect(engine.getGameState().stage).toBeNull();
+    engine.step(1);
+    expect(engine.getGameState().stage).toBe("one");
+  });
+
+  it("keeps random spawning when no stages are configured", () => {
+    const engine = createEngine();
+    engines.push(engine);
+
+    engine.start();
+    engine.step(300);
+    expect(engine.getGameState().stage).toBeNull();
+  });
+});
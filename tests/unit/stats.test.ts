@@ -0,0 +1,242 @@
+/**
+ * Stats Tests - Lifetime totals built from game events
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { StatsTracker, STATS_KEY } from "../../src/game/stats/StatsTracker";
+import { GameEngine } from "../../src/game/GameEngine";
+import type { GameEvent } from "../../src/game/types/GameTypes";
+
+// Mock DOM environment
+import "../test-setup";
+
+function event(type: GameEvent["type"], data: any = {}): GameEvent {
+  return { type, data, timestamp: 0 };
+}
+
+function playRun(
+  tracker: StatsTracker,
+  run: {
+    duration: number;
+    distance: number;
+    jumps?: number;
+    collected?: string[];
+    cause?: string | null;
+  },
+): void {
+  tracker.handleEvent(event("gamestart"));
+  for (let i = 0; i < (run.jumps ?? 0); i++) {
+    tracker.handleEvent(event("jump"));
+  }
+  for (const type of run.collected ?? []) {
+    tracker.handleEvent(event("collect", { type }));
+  }
+  tracker.handleEvent(
+    event("gameover", {
+      duration: run.duration,
+      distance: run.distance,
+      cause: run.cause ?? null,
+    }),
+  );
+}
+
+describe("StatsTracker", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("starts from zero", () => {
+    const stats = new StatsTracker().getStats();
+
+    expect(stats.runs).toBe(0);
+    expect(stats.averageRunTime).toBe(0);
+    expect(stats.collectibles).toEqual({});
+    expect(stats.deaths).toEqual({});
+  });
+
+  it("adds up runs, jumps, collectibles and deaths", () => {
+    const tracker = new StatsTracker();
+    playRun(tracker, {
+      duration: 10000,
+      distance: 2000,
+      jumps: 3,
+      collected: ["commit", "commit", "shield"],
+      cause: "bug",
+    });
+    playRun(tracker, {
+      duration: 30000,
+      distance: 6000,
+      jumps: 1,
+      collected: ["star"],
+      cause: "bug",
+    });
+
+    const stats = tracker.getStats();
+    expect(stats.runs).toBe(2);
+    expect(stats.playTime).toBe(40000);
+    expect(stats.distance).toBe(8000);
+    expect(stats.jumps).toBe(4);
+    expect(stats.collectibles).toEqual({ commit: 2, shield: 1, star: 1 });
+    expect(stats.deaths).toEqual({ bug: 2 });
+    expect(stats.averageRunTime).toBe(20000);
+    expect(stats.averageRunDistance).toBe(4000);
+    expect(stats.bestRunTime).toBe(30000);
+    expect(stats.bestRunDistance).toBe(6000);
+  });
+
+  it("does not count a death for runs stopped without a hit", () => {
+    const tracker = new StatsTracker();
+    playRun(tracker, { duration: 5000, distance: 1000 });
+
+    expect(tracker.getStats().runs).toBe(1);
+    expect(tracker.getStats().deaths).toEqual({});
+  });
+
+  it("counts a run once even if gameover repeats", () => {
+    const tracker = new StatsTracker();
+    playRun(tracker, { duration: 5000, distance: 1000, cause: "error" });
+    tracker.handleEvent(
+      event("gameover", { duration: 5000, distance: 1000, cause: "error" }),
+    );
+
+    expect(tracker.getStats().runs).toBe(1);
+    expect(tracker.getStats().deaths).toEqual({ error: 1 });
+  });
+
+  it("ignores events outside a run", () => {
+    const tracker = new StatsTracker();
+    tracker.handleEvent(event("jump"));
+    tracker.handleEvent(event("collect", { type: "commit" }));
+
+    expect(tracker.getStats().jumps).toBe(0);
+    expect(tracker.getStats().collectibles).toEqual({});
+  });
+
+  it("keeps stats across sessions", () => {
+    playRun(new StatsTracker(), {
+      duration: 5000,
+      distance: 1000,
+      jumps: 2,
+      cause: "segfault",
+    });
+    expect(localStorage.getItem(STATS_KEY)).not.toBeNull();
+
+    const stats = new StatsTracker().getStats();
+    expect(stats.runs).toBe(1);
+    expect(stats.jumps).toBe(2);
+    expect(stats.deaths).toEqual({ segfault: 1 });
+  });
+
+  it("ignores broken stored data", () => {
+    localStorage.setItem(
+      STATS_KEY,
+      JSON.stringify({
+        version: 1,
+        data: { runs: "lots", jumps: 4, deaths: { bug: -1, error: 2 } },
+      }),
+    );
+
+    const stats = new StatsTracker().getStats();
+    expect(stats.runs).toBe(0);
+    expect(stats.jumps).toBe(4);
+    expect(stats.deaths).toEqual({ error: 2 });
+  });
+
+  it("hands out copies", () => {
+    const tracker = new StatsTracker();
+    playRun(tracker, { duration: 1000, distance: 100, collected: ["star"] });
+    tracker.getStats().collectibles.star = 99;
+
+    expect(tracker.getStats().collectibles.star).toBe(1);
+  });
+
+  it("can run without saving and be cleared", () => {
+    const tracker = new StatsTracker({ persist: false });
+    playRun(tracker, { duration: 1000, distance: 100 });
+    expect(localStorage.getItem(STATS_KEY)).toBeNull();
+
+    tracker.clear();
+    expect(tracker.getStats().runs).toBe(0);
+  });
+});
+
+describe("GameEngine stats", () => {
+  let engine: GameEngine;
+
+  beforeEach(() => {
+    localStorage.clear();
+    engine = new GameEngine({
+      width: 240,
+      height: 216,
+      targetFPS: 60,
+      gravity: 0.8,
+      jumpPower: -12,
+      gameSpeed: 4,
+      spawnRate: 0,
+      seed: 16,
+      headless: true,
+      audio: {
+        enabled: false,
+        volume: 0,
+        frequencies: {
+          jump: 400,
+          collect: 800,
+          gameOver: 200,
+          background: [100, 150, 200],
+        },
+      },
+      render: {
+        pixelated: true,
+        doubleBuffering: false,
+        showFPS: false,
+        showHitboxes: false,
+      },
+    });
+    engine.initialize();
+  });
+
+  afterEach(() => {
+    engine.destroy();
+  });
+
+  it("records jumps, collectibles and what ended the run", () => {
+    const gameovers: GameEvent[] = [];
+    engine.addEventListener("gameover", (e) => gameovers.push(e));
+    let frame = 0;
+    engine.setInputSource(() => ({
+      left: false,
+      right: false,
+      up: false,
+      down: false,
+      space: frame++ === 0,
+      pause: false,
+    }));
+
+    engine.start();
+    (engine as any).spawnCollectible("star", 52, 176);
+    engine.step(40);
+    (engine as any).spawnObstacle("segfault", 60);
+    engine.step(10);
+
+    expect(gameovers[0].data.cause).toBe("segfault");
+    const stats = engine.getStats();
+    expect(stats.runs).toBe(1);
+    expect(stats.jumps).toBe(1);
+    expect(stats.collectibles).toEqual({ star: 1 });
+    expect(stats.deaths).toEqual({ segfault: 1 });
+    // Headless runs are simulations - nothing is saved
+    expect(localStorage.getItem(STATS_KEY)).toBeNull();
+  });
+
+  it("reports no cause when the run is stopped", () => {
+    const gameovers: GameEvent[] = [];
+    engine.addEventListener("gameover", (e) => gameovers.push(e));
+
+    engine.start();
+    engine.step(10);
+    engine.stop();
+
+    expect(gameovers[0].data.cause).toBeNull();
+    expect(engine.getStats().deaths).toEqual({});
+  });
+});
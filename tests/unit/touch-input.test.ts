@@ -0,0 +1,111 @@
+/**
+ * Touch Input Tests - Per-finger tracking and gestures
+ */
+
+import {
+  describe,
+  it,
+  expect,
+  beforeEach,
+  afterEach,
+  setSystemTime,
+} from "bun:test";
+import { InputHandler } from "../../src/game/utils/InputHandler";
+
+// Mock DOM environment
+import "../test-setup";
+
+// A 300px wide element: 0-90 runs left, 210-300 runs right, the rest jumps
+const element = {
+  getBoundingClientRect: () => ({ left: 0, top: 0, width: 300, height: 270 }),
+};
+
+function touchEvent(touches: { id: number; x: number; y?: number }[]) {
+  return {
+    currentTarget: element,
+    changedTouches: touches.map((t) => ({
+      identifier: t.id,
+      clientX: t.x,
+      clientY: t.y ?? 100,
+    })),
+  } as unknown as TouchEvent;
+}
+
+describe("Touch input", () => {
+  let input: InputHandler;
+  let jumps: number;
+  let pauses: number;
+
+  const start = (...touches: { id: number; x: number; y?: number }[]) =>
+    (input as any).handleTouchStart(touchEvent(touches));
+  const move = (...touches: { id: number; x: number; y?: number }[]) =>
+    (input as any).handleTouchMove(touchEvent(touches));
+  const end = (...touches: { id: number; x: number; y?: number }[]) =>
+    (input as any).handleTouchEnd(touchEvent(touches));
+
+  beforeEach(() => {
+    input = new InputHandler({ persist: false });
+    jumps = 0;
+    pauses = 0;
+    input.onCallback("jump", () => jumps++);
+    input.onCallback("pause", () => pauses++);
+  });
+
+  afterEach(() => {
+    setSystemTime();
+  });
+
+  it("keeps running when a second finger lifts", () => {
+    setSystemTime(new Date(1000));
+    start({ id: 1, x: 250 });
+    // A second finger lands later (not a two-finger tap) and jumps
+    setSystemTime(new Date(1500));
+    start({ id: 2, x: 150 });
+    expect(input.getInputState()).toMatchObject({ right: true, space: true });
+    expect(jumps).toBe(1);
+
+    end({ id: 2, x: 150 });
+    expect(input.getInputState()).toMatchObject({ right: true, space: false });
+
+    end({ id: 1, x: 250 });
+    expect(input.isPressed("right")).toBe(false);
+  });
+
+  it("ducks on swipe down instead of jumping", () => {
+    start({ id: 1, x: 150, y: 100 });
+    move({ id: 1, x: 152, y: 140 });
+
+    expect(input.getInputState()).toMatchObject({ down: true, space: false });
+
+    end({ id: 1, x: 152, y: 140 });
+    expect(input.isPressed("down")).toBe(false);
+  });
+
+  it("jumps on swipe up from a run zone", () => {
+    start({ id: 1, x: 20, y: 200 });
+    move({ id: 1, x: 20, y: 150 });
+
+    expect(input.isPressed("space")).toBe(true);
+    expect(jumps).toBe(1);
+  });
+
+  it("pauses on a two-finger tap", () => {
+    start({ id: 1, x: 100 }, { id: 2, x: 200 });
+    expect(input.isPressed("space")).toBe(false);
+
+    end({ id: 1, x: 100 });
+    expect(pauses).toBe(0);
+    end({ id: 2, x: 200 });
+
+    expect(pauses).toBe(1);
+    expect(input.getInputState().pause).toBe(true);
+  });
+
+  it("doesn't pause when two fingers drag", () => {
+    start({ id: 1, x: 100 }, { id: 2, x: 200 });
+    move({ id: 1, x: 100, y: 160 });
+    end({ id: 1, x: 100 }, { id: 2, x: 200 });
+
+    expect(pauses).toBe(0);
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Virtual Gamepad Tests - On-screen D-pad and A/B buttons
+ */
+
+import { describe, it, expect } from "bun:test";
+import { InputHandler } from "../../src/game/utils/InputHandler";
+
+// Mock DOM environment
+import "../test-setup";
+
+describe("Virtual gamepad", () => {
+  it("holds run and jump at the same time", () => {
+    const input = new InputHandler({ persist: false });
+    const pad = input.createVirtualGamepad();
+    const jumps: number[] = [];
+    input.onCallback("jump", () => jumps.push(1));
+
+    pad.onButtonPress("right");
+    pad.onButtonPress("a");
+    expect(input.getInputState()).toMatchObject({ right: true, space: true });
+    expect(jumps).toHaveLength(1);
+
+    // Letting go of A keeps running
+    pad.onButtonRelease("a");
+    expect(input.getInputState()).toMatchObject({ right: true, space: false });
+  });
+
+  it("ducks with B", () => {
+    const input = new InputHandler({ persist: false });
+    const pad = input.createVirtualGamepad();
+
+    pad.onButtonPress("b");
+    expect(input.isPressed("down")).toBe(true);
+    pad.onButtonRelease("b");
+    expect(input.isPressed("down")).toBe(false);
+  });
+
+  it("doesn't release keys held on the keyboard", () => {
+    const input = new InputHandler({ persist: false });
+    const pad = input.createVirtualGamepad();
+    (input as any).handleKeyDown({
+      code: "ArrowRight",
+      target: null,
+      preventDefault: () => {},
+    });
+
+    pad.onButtonPress("right");
+    pad.onButtonRelease("right");
+    expect(input.isPressed("right")).toBe(true);
+
+    (input as any).handleKeyUp({ code: "ArrowRight", target: null });
+    expect(input.isPressed("right")).toBe(false);
+  });
+});